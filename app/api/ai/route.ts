@@ -1,71 +1,78 @@
 import { NextRequest, NextResponse } from "next/server";
-import { generateText } from "ai";
-import { google } from "@ai-sdk/google";
+import { generateAIObject, generateAIText, resolveModelId } from "@/lib/ai";
+import { errorResponse } from "@/lib/api-errors";
+import { getConfig } from "@/lib/config";
+import { getRequestContext } from "@/lib/logger";
+import { candidateFitAnalysisSchema } from "@/lib/prompts";
+import { withRoute } from "@/lib/route-handler";
+import { rateLimit } from "@/lib/rate-limit";
+import { aiRequestSchema, parseJsonBody } from "@/lib/validation";
 
 /**
  * POST /api/ai
- * 
- * Generate AI responses using Google Gemini
- * 
+ *
+ * Generate AI responses with any configured provider. This relays arbitrary prompts, so
+ * it is disabled (403) unless AI_RELAY_ENABLED=true; the app itself uses
+ * task endpoints such as POST /api/analyses/fit.
+ *
  * Request body:
  * {
  *   prompt: string;           // The prompt to send (include your data here)
  *   systemPrompt?: string;    // Optional system prompt for context
- *   model?: string;           // Model to use (default: gemini-2.5-flash-lite)
+ *   model?: string;           // "provider:model" from AI_ALLOWED_MODELS (default: AI_SUMMARIZATION_MODEL,
+ *                             // or AI_ANALYSIS_MODEL for candidate-fit)
+ *   output?: "text" | "candidate-fit"; // Structured output schema (default: text)
  * }
- * 
+ *
  * Response:
  * {
  *   text: string;             // The generated response
  *   usage?: object;           // Token usage information
+ *   finishReason: string;
+ *   model: string;            // The model that answered, as "provider:model"
  * }
+ * or, for `output: "candidate-fit"`:
+ * {
+ *   object: CandidateFitAnalysisResult; // Validated against candidateFitAnalysisSchema
+ * }
+ *
+ * A structured output that does not match its schema answers 502 with the
+ * invalid fields: { error, fields: Record<string, string>, requestId }
  */
-export async function POST(request: NextRequest) {
+export const POST = withRoute("/api/ai", async (request: NextRequest) => {
+  if (!getConfig().ai.relayEnabled) {
+    return NextResponse.json(
+      {
+        error: "The AI relay is disabled. Use POST /api/analyses/fit, or set AI_RELAY_ENABLED=true.",
+        requestId: getRequestContext()?.requestId,
+      },
+      { status: 403 }
+    );
+  }
+
+  const limited = rateLimit(request, "ai");
+  if (limited) return limited;
+
   try {
-    const body = await request.json();
-    const { prompt, systemPrompt, model: modelId } = body;
+    const { prompt, systemPrompt, model, output } = await parseJsonBody(aiRequestSchema, request);
 
-    if (!prompt) {
-      return NextResponse.json(
-        { error: "Prompt is required" },
-        { status: 400 }
-      );
+    if (output === "candidate-fit") {
+      const object = await generateAIObject(prompt, candidateFitAnalysisSchema, systemPrompt, {
+        model: resolveModelId(model, "analysis"),
+        signal: request.signal,
+      });
+      return NextResponse.json({ object });
     }
 
-    const modelName = modelId || process.env.GOOGLE_MODEL || "gemini-2.5-flash-lite";
-    const model = google(modelName);
-
-    const result = await generateText({
-      model,
-      system: systemPrompt,
-      prompt,
-    });
+    const result = await generateAIText(prompt, systemPrompt, { model, signal: request.signal });
 
     return NextResponse.json({
       text: result.text,
       usage: result.usage,
       finishReason: result.finishReason,
+      model: result.model,
     });
   } catch (error) {
-    console.error("AI generation error:", error);
-    
-    if (error instanceof Error) {
-      if (error.message.includes("API key")) {
-        return NextResponse.json(
-          { error: "Google API key not configured. Set GOOGLE_GENERATIVE_AI_API_KEY environment variable." },
-          { status: 500 }
-        );
-      }
-      
-      return NextResponse.json(
-        { error: error.message },
-        { status: 500 }
-      );
-    }
-    
-    return NextResponse.json(
-      { error: "An unexpected error occurred" },
-      { status: 500 }
-    );
+    return errorResponse(error);
   }
-}
+});
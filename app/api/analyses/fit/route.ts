@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { analyzeCandidateFit, resolveModelId } from "@/lib/ai";
+import { errorResponse } from "@/lib/api-errors";
+import { withRoute } from "@/lib/route-handler";
+import { rateLimit } from "@/lib/rate-limit";
+import { torreServerApi } from "@/lib/torre-server";
+import { fitAnalysisBodySchema, parseJsonBody } from "@/lib/validation";
+
+/**
+ * POST /api/analyses/fit
+ *
+ * Analyze how well a Torre user fits a job. The job and genome are fetched
+ * server-side (through the response cache) and the prompt never leaves the
+ * server.
+ *
+ * Request body:
+ * {
+ *   jobId: string;
+ *   username: string;
+ *   model?: string;           // "provider:model" from AI_ALLOWED_MODELS (default: AI_ANALYSIS_MODEL)
+ * }
+ *
+ * Response:
+ * {
+ *   analysis: CandidateFitAnalysisResult;
+ *   model: string;
+ * }
+ */
+export const POST = withRoute("/api/analyses/fit", async (request: NextRequest) => {
+  const limited = rateLimit(request, "ai");
+  if (limited) return limited;
+
+  try {
+    const body = await parseJsonBody(fitAnalysisBodySchema, request);
+    const { jobId, username } = body;
+    const model = resolveModelId(body.model, "analysis");
+
+    const [job, genome] = await Promise.all([
+      torreServerApi.getJobDetails(jobId, { signal: request.signal }),
+      torreServerApi.getGenome(username, { signal: request.signal }),
+    ]);
+
+    const analysis = await analyzeCandidateFit(
+      { job, genome },
+      { model, signal: request.signal }
+    );
+
+    return NextResponse.json({ analysis, model });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,119 @@
+import { NextRequest } from "next/server";
+import { resolveModelId, streamCandidateFit } from "@/lib/ai";
+import { errorResponse } from "@/lib/api-errors";
+import { getRequestContext, logger, runWithRequestContext } from "@/lib/logger";
+import type { FitAnalysisStreamEvent } from "@/lib/prompts";
+import { CLIENT_CLOSED_REQUEST, withRoute, withStreamOutcome } from "@/lib/route-handler";
+import { rateLimit } from "@/lib/rate-limit";
+import { isAbortError } from "@/lib/torre-errors";
+import { torreServerApi } from "@/lib/torre-server";
+import { fitAnalysisBodySchema, parseJsonBody } from "@/lib/validation";
+
+/**
+ * POST /api/analyses/fit/stream
+ *
+ * Same input as POST /api/analyses/fit, but the analysis is streamed as
+ * newline-delimited JSON while the model writes it:
+ *
+ *   {"type":"partial","analysis":{"jobSummary":"..."}}
+ *   {"type":"partial","analysis":{"jobSummary":"...","overallFitScore":"Good Match"}}
+ *   {"type":"done","analysis":{...},"model":"gemini-2.5-flash-lite"}
+ *
+ * Invalid input and Torre failures answer with a regular JSON error before
+ * streaming starts; failures during generation end the stream with
+ * {"type":"error","status":502,"error":"...","fields":{...}}. Closing the
+ * connection cancels the generation and ends the stream without an error event.
+ * The request is logged and measured with its final status when the stream ends.
+ */
+export const POST = withRoute("/api/analyses/fit/stream", async (request: NextRequest) => {
+  const limited = rateLimit(request, "ai");
+  if (limited) return limited;
+
+  let events: AsyncGenerator<FitAnalysisStreamEvent>;
+  try {
+    const body = await parseJsonBody(fitAnalysisBodySchema, request);
+    const { jobId, username } = body;
+    const model = resolveModelId(body.model, "analysis");
+    const [job, genome] = await Promise.all([
+      torreServerApi.getJobDetails(jobId, { signal: request.signal }),
+      torreServerApi.getGenome(username, { signal: request.signal }),
+    ]);
+    events = analysisEvents(
+      streamCandidateFit({ job, genome }, { model, signal: request.signal }),
+      model,
+      request.signal
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+
+  // The stream is read after the handler returns, so carry the request id over for logs
+  const context = getRequestContext();
+  const next = () => (context ? runWithRequestContext(context, () => events.next()) : events.next());
+
+  // Status the request is logged with once the stream ends: an error event's, or 200
+  let status = 200;
+  let settle!: (status: number) => void;
+  const outcome = new Promise<number>((resolve) => (settle = resolve));
+
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let result: IteratorResult<FitAnalysisStreamEvent>;
+      try {
+        result = await next();
+      } catch (error) {
+        settle(500);
+        throw error;
+      }
+      const { value, done } = result;
+      // Nothing more is sent once the client has gone away
+      if (request.signal.aborted) {
+        settle(CLIENT_CLOSED_REQUEST);
+        controller.close();
+      } else if (done) {
+        settle(status);
+        controller.close();
+      } else {
+        if (value.type === "error") status = value.status;
+        controller.enqueue(encoder.encode(`${JSON.stringify(value)}\n`));
+      }
+    },
+    async cancel() {
+      settle(CLIENT_CLOSED_REQUEST);
+      await events.return(undefined);
+    },
+  });
+
+  const response = new Response(body, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+  return withStreamOutcome(response, outcome);
+});
+
+// Wrap the model stream into wire events, ending with an error event on failure
+async function* analysisEvents(
+  stream: ReturnType<typeof streamCandidateFit>,
+  model: string,
+  signal: AbortSignal
+): AsyncGenerator<FitAnalysisStreamEvent> {
+  try {
+    for await (const event of stream) {
+      yield event.type === "done"
+        ? { type: "done", analysis: event.object, model }
+        : { type: "partial", analysis: event.object };
+    }
+  } catch (error) {
+    // The client went away: nobody is left to read an error event
+    if (signal.aborted || isAbortError(error)) {
+      logger.info("analysis_stream_aborted", { model });
+      return;
+    }
+    // Same body (and logging) as a non-streamed error response
+    const response = errorResponse(error);
+    yield { type: "error", status: response.status, ...(await response.json()) };
+  }
+}
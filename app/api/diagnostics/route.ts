@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { getCoalescingStats } from "@/lib/coalesce";
+import { getCircuitSnapshots, getUpstreamConfig } from "@/lib/upstream";
+import { withRoute } from "@/lib/route-handler";
+
+/**
+ * GET /api/diagnostics
+ * 
+ * Report the upstream fetch settings, the circuit breaker state of each Torre
+ * upstream and how many calls request coalescing saved
+ * 
+ * Response:
+ * {
+ *   config: UpstreamConfig;
+ *   circuits: Record<"search" | "opportunities" | "genome", CircuitSnapshot>;
+ *   coalescing: Record<"search" | "opportunities" | "genome", CoalescingStats>;
+ * }
+ */
+export const GET = withRoute("/api/diagnostics", async () => {
+  return NextResponse.json(
+    {
+      config: getUpstreamConfig(),
+      circuits: getCircuitSnapshots(),
+      coalescing: getCoalescingStats(),
+    },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+});
@@ -1,27 +1,52 @@
 import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api-errors";
+import { withRoute } from "@/lib/route-handler";
+import { rateLimit } from "@/lib/rate-limit";
+import { cachedJsonResponse, purgeCached, purgeDenied } from "@/lib/cache";
+import { loadGenome } from "@/lib/torre-server";
+import { parseInput, usernameParamsSchema } from "@/lib/validation";
 
-export async function GET(
+export const GET = withRoute("/api/genome/[username]", async (
   request: NextRequest,
   { params }: { params: Promise<{ username: string }> }
-) {
+) => {
+  const limited = rateLimit(request, "genome");
+  if (limited) return limited;
+
   try {
-    const { username } = await params;
+    const { username } = parseInput(usernameParamsSchema, await params, "params");
     
-    const response = await fetch(
-      `https://torre.ai/api/genome/bios/${username}`,
-      {
-        method: "GET",
-        headers: { "Content-Type": "application/json" },
-      }
-    );
+    const result = await loadGenome(username);
     
-    const data = await response.json();
-    return NextResponse.json(data, { status: response.status });
+    return cachedJsonResponse(request, result);
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
+
+/**
+ * DELETE /api/genome/[username]
+ * 
+ * Purge the cached genome so the next GET refetches from Torre
+ *
+ * Requires `Authorization: Bearer $CACHE_PURGE_TOKEN`; answers 403 while no
+ * token is configured
+ */
+export const DELETE = withRoute("/api/genome/[username]", async (
+  request: NextRequest,
+  { params }: { params: Promise<{ username: string }> }
+) => {
+  const limited = rateLimit(request, "genome");
+  if (limited) return limited;
+
+  const denied = purgeDenied(request);
+  if (denied) return denied;
+
+  try {
+    const { username } = parseInput(usernameParamsSchema, await params, "params");
+    return NextResponse.json({ purged: await purgeCached("genome", username) });
   } catch (error) {
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Unknown error" },
-      { status: 500 }
-    );
+    return errorResponse(error);
   }
-}
+});
 
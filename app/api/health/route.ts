@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getHealthReport } from "@/lib/health";
+import { withRoute } from "@/lib/route-handler";
+
+/**
+ * GET /api/health
+ *
+ * Report the app version, the AI configuration and the reachability and
+ * latency of each Torre upstream. Pass `?probe=false` to skip the upstream
+ * probes (they are always skipped in mock mode).
+ *
+ * Response:
+ * {
+ *   status: "ok" | "degraded";
+ *   version: string;
+ *   timestamp: string;
+ *   mockMode: "off" | "replay" | "record";
+ *   ai: { apiKeyConfigured: boolean; model: string; tasks: Record<"analysis" | "summarization", string>;
+ *         providers: Record<"google" | "anthropic" | "openai" | "local" | "mock", boolean> };
+ *   upstreams: Record<"search" | "opportunities" | "genome", UpstreamHealth>;
+ * }
+ */
+export const GET = withRoute("/api/health", async (request: NextRequest) => {
+  const probe = request.nextUrl.searchParams.get("probe") !== "false";
+
+  return NextResponse.json(await getHealthReport({ probe }), {
+    headers: { "Cache-Control": "no-store" },
+  });
+});
@@ -1,27 +1,52 @@
 import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api-errors";
+import { withRoute } from "@/lib/route-handler";
+import { rateLimit } from "@/lib/rate-limit";
+import { cachedJsonResponse, purgeCached, purgeDenied } from "@/lib/cache";
+import { loadJobDetails } from "@/lib/torre-server";
+import { jobParamsSchema, parseInput } from "@/lib/validation";
 
-export async function GET(
+export const GET = withRoute("/api/jobs/[id]", async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
+  const limited = rateLimit(request, "jobs");
+  if (limited) return limited;
+
   try {
-    const { id } = await params;
+    const { id } = parseInput(jobParamsSchema, await params, "params");
     
-    const response = await fetch(
-      `https://torre.ai/api/suite/opportunities/${id}`,
-      {
-        method: "GET",
-        headers: { "Content-Type": "application/json" },
-      }
-    );
+    const result = await loadJobDetails(id);
     
-    const data = await response.json();
-    return NextResponse.json(data, { status: response.status });
+    return cachedJsonResponse(request, result);
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
+
+/**
+ * DELETE /api/jobs/[id]
+ * 
+ * Purge the cached job details so the next GET refetches from Torre
+ *
+ * Requires `Authorization: Bearer $CACHE_PURGE_TOKEN`; answers 403 while no
+ * token is configured
+ */
+export const DELETE = withRoute("/api/jobs/[id]", async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const limited = rateLimit(request, "jobs");
+  if (limited) return limited;
+
+  const denied = purgeDenied(request);
+  if (denied) return denied;
+
+  try {
+    const { id } = parseInput(jobParamsSchema, await params, "params");
+    return NextResponse.json({ purged: await purgeCached("job", id) });
   } catch (error) {
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Unknown error" },
-      { status: 500 }
-    );
+    return errorResponse(error);
   }
-}
+});
 
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { JobBatchEntry } from "@/lib/torre-api";
+import { TorreApiError, TorreInvalidRequestError } from "@/lib/torre-errors";
+import { errorResponse } from "@/lib/api-errors";
+import { withRoute } from "@/lib/route-handler";
+import { rateLimit } from "@/lib/rate-limit";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { jobBatchBodySchema, parseJsonBody } from "@/lib/validation";
+import { loadJobDetails } from "@/lib/torre-server";
+import { getUpstreamConfig } from "@/lib/upstream";
+
+/**
+ * POST /api/jobs/batch
+ *
+ * Fetch several jobs server-side, at most TORRE_BATCH_CONCURRENCY at a time
+ *
+ * Request body:
+ * {
+ *   ids: string[];            // Job IDs (duplicates are ignored, max TORRE_BATCH_MAX_IDS)
+ *   concurrency?: number;     // Parallel lookups, capped by TORRE_BATCH_CONCURRENCY
+ * }
+ *
+ * Response:
+ * {
+ *   results: Array<
+ *     | { id: string; ok: true; job: JobDetails }
+ *     | { id: string; ok: false; error: TorreApiErrorPayload }
+ *   >;
+ * }
+ */
+export const POST = withRoute("/api/jobs/batch", async (request: NextRequest) => {
+  try {
+    const { ids, concurrency: requested } = await parseJsonBody(jobBatchBodySchema, request);
+    const { batchConcurrency, batchMaxIds } = getUpstreamConfig();
+
+    const uniqueIds = [...new Set(ids)];
+    if (uniqueIds.length > batchMaxIds) {
+      const message = `At most ${batchMaxIds} job IDs can be requested at once`;
+      throw new TorreInvalidRequestError(message, { fields: { "body.ids": message } });
+    }
+
+    // Each ID draws from the same budget as a single job lookup
+    const limited = rateLimit(request, "jobs", uniqueIds.length);
+    if (limited) return limited;
+
+    const concurrency = Math.min(requested ?? batchConcurrency, batchConcurrency);
+
+    const results = await mapWithConcurrency(uniqueIds, concurrency, async (id): Promise<JobBatchEntry> => {
+      try {
+        const { value } = await loadJobDetails(id);
+        return { id, ok: true, job: value };
+      } catch (error) {
+        const apiError = error instanceof TorreApiError
+          ? error
+          : new TorreApiError(error instanceof Error ? error.message : `Request for Job ${id} failed`);
+        return { id, ok: false, error: apiError.toJSON() };
+      }
+    });
+
+    return NextResponse.json({ results }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isMetricsAuthorized, renderMetrics } from "@/lib/metrics";
+import { withRoute } from "@/lib/route-handler";
+
+/**
+ * GET /api/metrics
+ *
+ * Expose request counts, latency histograms, error counts, cache lookups and
+ * AI token usage in the Prometheus text format. Requires
+ * `Authorization: Bearer <METRICS_TOKEN>` when METRICS_TOKEN is set.
+ */
+export const GET = withRoute("/api/metrics", async (request: NextRequest) => {
+  if (!isMetricsAuthorized(request)) {
+    return NextResponse.json({ error: "Not authorized to read metrics" }, { status: 401 });
+  }
+
+  return new NextResponse(renderMetrics(), {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+});
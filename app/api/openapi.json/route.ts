@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getOpenApiDocument } from "@/lib/openapi";
+import { withRoute } from "@/lib/route-handler";
+
+/**
+ * GET /api/openapi.json
+ *
+ * OpenAPI 3.1 document for the API routes, generated from the same zod
+ * schemas the routes validate against. Browsable at `/docs`.
+ */
+export const GET = withRoute("/api/openapi.json", async () => {
+  return NextResponse.json(getOpenApiDocument(), {
+    headers: { "Access-Control-Allow-Origin": "*" },
+  });
+});
@@ -1,28 +1,40 @@
 import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api-errors";
+import { getConfig } from "@/lib/config";
+import { withRoute } from "@/lib/route-handler";
+import { rateLimit } from "@/lib/rate-limit";
+import { fetchUpstream } from "@/lib/upstream";
+import { searchResponseSchema, validateUpstream } from "@/lib/torre-schemas";
+import { parseJsonBody, parseQuery, searchBodySchema, searchQuerySchema } from "@/lib/validation";
+
+export const POST = withRoute("/api/search", async (request: NextRequest) => {
+  const limited = rateLimit(request, "search");
+  if (limited) return limited;
 
-export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const searchParams = request.nextUrl.searchParams;
-    
-    const size = searchParams.get("size") || "10";
+    const query = parseQuery(searchQuerySchema, request);
+    const body = await parseJsonBody(searchBodySchema, request);
+
+    const upstreamParams = new URLSearchParams({ contextFeature: "job_feed" });
+    for (const [name, value] of Object.entries(query)) {
+      if (value != null) {
+        upstreamParams.set(name, String(value));
+      }
+    }
     
-    const response = await fetch(
-      `https://search.torre.co/opportunities/_search?currency=USD&periodicity=hourly&lang=en&size=${size}&contextFeature=job_feed`,
+    const data = await fetchUpstream(
+      `${getConfig().torre.endpoints.search}?${upstreamParams.toString()}`,
       {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(body),
-      }
+      },
+      { upstream: "search", resource: "Opportunity search" }
     );
     
-    const data = await response.json();
-    return NextResponse.json(data, { status: response.status });
+    return NextResponse.json(validateUpstream(searchResponseSchema, data, "search"));
   } catch (error) {
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Unknown error" },
-      { status: 500 }
-    );
+    return errorResponse(error);
   }
-}
+});
 
@@ -0,0 +1,174 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { getOpenApiDocument, type OpenApiOperation } from "@/lib/openapi";
+
+export const metadata: Metadata = {
+  title: "API Reference",
+  description: "OpenAPI reference for the Torre proxy and AI routes",
+};
+
+const METHOD_STYLES: Record<string, string> = {
+  get: "bg-sky-500/20 text-sky-400",
+  post: "bg-emerald-500/20 text-emerald-400",
+  delete: "bg-red-500/20 text-red-400",
+};
+
+// "#/components/schemas/JobDetails" -> "JobDetails"
+const refName = (schema: Record<string, unknown>) =>
+  typeof schema.$ref === "string" ? schema.$ref.split("/").pop() : undefined;
+
+// Links to the component when the schema is a $ref, otherwise prints it inline
+const SchemaView = ({ schema }: { schema: Record<string, unknown> }) => {
+  const name = refName(schema);
+  if (name) {
+    return (
+      <a href={`#schema-${name}`} className="font-mono text-sm text-[var(--accent)] hover:underline">
+        {name}
+      </a>
+    );
+  }
+  return (
+    <pre className="overflow-x-auto rounded-lg bg-[var(--input-bg)] p-3 text-xs text-[var(--muted)]">
+      {JSON.stringify(schema, null, 2)}
+    </pre>
+  );
+};
+
+const OperationCard = ({ path, method, operation }: { path: string; method: string; operation: OpenApiOperation }) => (
+  <div id={operation.operationId} className="rounded-xl border border-[var(--card-border)] bg-[var(--card-bg)] p-6">
+    <div className="mb-2 flex flex-wrap items-center gap-3">
+      <span className={`rounded-md px-2 py-1 font-mono text-xs font-bold uppercase ${METHOD_STYLES[method]}`}>
+        {method}
+      </span>
+      <code className="font-mono text-[var(--foreground)]">{path}</code>
+    </div>
+    <p className="text-[var(--foreground)]">{operation.summary}</p>
+    {operation.description && <p className="mt-1 text-sm text-[var(--muted)]">{operation.description}</p>}
+
+    {operation.parameters && operation.parameters.length > 0 && (
+      <div className="mt-4">
+        <p className="mb-2 text-xs font-medium uppercase tracking-wider text-[var(--muted)]">Parameters</p>
+        <table className="w-full text-left text-sm">
+          <tbody>
+            {operation.parameters.map((parameter) => (
+              <tr key={`${parameter.in}-${parameter.name}`} className="border-t border-[var(--card-border)]">
+                <td className="py-2 pr-4 align-top font-mono">
+                  {parameter.name}
+                  {parameter.required && <span className="text-red-400">*</span>}
+                </td>
+                <td className="py-2 pr-4 align-top text-[var(--muted)]">{parameter.in}</td>
+                <td className="py-2 pr-4 align-top font-mono text-xs text-[var(--muted)]">
+                  {JSON.stringify(parameter.schema)}
+                </td>
+                <td className="py-2 align-top text-[var(--muted)]">{parameter.description}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+
+    {operation.requestBody && (
+      <div className="mt-4">
+        <p className="mb-2 text-xs font-medium uppercase tracking-wider text-[var(--muted)]">Request body</p>
+        {Object.entries(operation.requestBody.content).map(([type, { schema }]) => (
+          <div key={type} className="flex items-center gap-2 text-sm">
+            <span className="text-[var(--muted)]">{type}</span>
+            <SchemaView schema={schema} />
+          </div>
+        ))}
+      </div>
+    )}
+
+    <div className="mt-4">
+      <p className="mb-2 text-xs font-medium uppercase tracking-wider text-[var(--muted)]">Responses</p>
+      <ul className="space-y-2 text-sm">
+        {Object.entries(operation.responses).map(([status, response]) => (
+          <li key={status} className="flex flex-wrap items-start gap-3">
+            <span
+              className={`rounded-full px-2 py-0.5 font-mono text-xs font-medium ${
+                status.startsWith("2") || status.startsWith("3")
+                  ? "bg-green-500/20 text-green-400"
+                  : "bg-red-500/20 text-red-400"
+              }`}
+            >
+              {status}
+            </span>
+            <span className="text-[var(--muted)]">{response.description}</span>
+            {response.content &&
+              Object.values(response.content).map(({ schema }, index) =>
+                refName(schema) ? <SchemaView key={index} schema={schema} /> : null
+              )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  </div>
+);
+
+/**
+ * Browsable rendering of /api/openapi.json
+ */
+export default function DocsPage() {
+  const document = getOpenApiDocument();
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] px-4 py-12 sm:px-6 lg:px-8">
+      <div className="mx-auto max-w-4xl">
+        <Link
+          href="/"
+          className="mb-4 inline-flex items-center gap-2 text-sm text-[var(--muted)] transition-colors hover:text-[var(--foreground)]"
+        >
+          ← Back
+        </Link>
+
+        <div className="mb-10">
+          <h1 className="mb-2 text-4xl font-bold tracking-tight text-[var(--foreground)]">
+            {document.info.title} <span className="text-[var(--accent)]">v{document.info.version}</span>
+          </h1>
+          <p className="text-[var(--muted)]">{document.info.description}</p>
+          <a
+            href="/api/openapi.json"
+            className="mt-4 inline-flex items-center gap-2 rounded-lg border border-[var(--card-border)] bg-[var(--card-bg)] px-3 py-2 text-sm font-medium text-[var(--accent)] hover:border-[var(--accent)]"
+          >
+            Download OpenAPI 3.1 JSON
+          </a>
+        </div>
+
+        {document.tags.map((tag) => (
+          <section key={tag.name} className="mb-12">
+            <h2 className="mb-1 text-2xl font-semibold text-[var(--foreground)]">{tag.name}</h2>
+            <p className="mb-4 text-sm text-[var(--muted)]">{tag.description}</p>
+            <div className="space-y-4">
+              {Object.entries(document.paths).flatMap(([path, operations]) =>
+                Object.entries(operations)
+                  .filter(([, operation]) => operation.tags.includes(tag.name))
+                  .map(([method, operation]) => (
+                    <OperationCard key={`${method} ${path}`} path={path} method={method} operation={operation} />
+                  ))
+              )}
+            </div>
+          </section>
+        ))}
+
+        <section>
+          <h2 className="mb-4 text-2xl font-semibold text-[var(--foreground)]">Schemas</h2>
+          <div className="space-y-4">
+            {Object.entries(document.components.schemas).map(([name, schema]) => (
+              <details
+                key={name}
+                id={`schema-${name}`}
+                className="rounded-xl border border-[var(--card-border)] bg-[var(--card-bg)] p-4"
+              >
+                <summary className="cursor-pointer font-mono text-[var(--foreground)]">{name}</summary>
+                <div className="mt-3">
+                  <SchemaView schema={schema} />
+                </div>
+              </details>
+            ))}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, use } from "react";
+import { useState, useEffect, useRef, use } from "react";
 import Link from "next/link";
 import Image from "next/image";
 import { 
@@ -9,12 +9,12 @@ import {
   type JobDetails,
   type GenomeResponse,
 } from "@/lib/torre-api";
+import { TorreApiError, TorreNotFoundError, isAbortError } from "@/lib/torre-errors";
 import {
-  generateCandidateFitPrompt,
-  CANDIDATE_FIT_SYSTEM_PROMPT,
   getFitScoreColor,
-  parseAIResponse,
   type CandidateFitAnalysisResult,
+  type FitAnalysisStreamEvent,
+  type PartialCandidateFitAnalysis,
 } from "@/lib/prompts";
 import jsPDF from "jspdf";
 
@@ -78,7 +78,7 @@ const formatDate = (dateString: string): string => {
   });
 };
 
-const formatCommitment = (commitment: JobDetails["commitment"]): string => {
+const formatCommitment = (commitment: NonNullable<JobDetails["commitment"]>): string => {
   const commitMap: Record<string, string> = {
     "full-time": "Full-time",
     "part-time": "Part-time",
@@ -88,7 +88,7 @@ const formatCommitment = (commitment: JobDetails["commitment"]): string => {
   return commitMap[commitment.code] || commitment.code.replace(/-/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
 };
 
-const formatAgreement = (agreement: JobDetails["agreement"]): string => {
+const formatAgreement = (agreement: NonNullable<JobDetails["agreement"]>): string => {
   const agreementMap: Record<string, string> = {
     "non-employment-contract": "Non-employment Contract",
     "employment-contract": "Employment Contract",
@@ -208,6 +208,76 @@ const getThemeColor = (theme: string): string => {
   return themeMap[theme] || "#cdff50";
 };
 
+// Error copy for failed job loads, keyed off the typed Torre errors
+const describeJobError = (error: Error | null): { title: string; message: string; retryable: boolean } => {
+  if (!error || error instanceof TorreNotFoundError) {
+    return {
+      title: "Job Not Found",
+      message: "This job no longer exists or has been removed from Torre.",
+      retryable: false,
+    };
+  }
+  if (error instanceof TorreApiError && error.retryable) {
+    return {
+      title: "Torre Is Unavailable",
+      message: "Torre is down or busy right now. Please retry in a moment.",
+      retryable: true,
+    };
+  }
+  return { title: "Something Went Wrong", message: error.message, retryable: true };
+};
+
+// Error copy for a failed fit analysis
+const describeAnalysisError = (error: unknown, username: string): string => {
+  if (error instanceof TorreNotFoundError) {
+    return `No Torre profile found for "${username}". Check the username and try again.`;
+  }
+  if (error instanceof TorreApiError && error.retryable) {
+    return "Torre is down or busy right now. Please retry in a moment.";
+  }
+  return error instanceof Error ? error.message : "An error occurred";
+};
+
+// Error copy from an analysis error body; schema mismatches list the offending fields
+const analysisErrorMessage = (body: { error?: string; fields?: Record<string, string> }): string => {
+  const fields = body.fields ? Object.keys(body.fields) : [];
+  const message = body.error || "AI analysis failed";
+  return fields.length ? `${message} (${fields.join(", ")}). Please try again.` : message;
+};
+
+// Read the NDJSON analysis stream line by line; a stream cut off before its
+// "done" or "error" event (server crash, proxy timeout) is an error too
+const readAnalysisStream = async (response: Response, onEvent: (event: FitAnalysisStreamEvent) => void) => {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let finished = false;
+  const emit = (line: string) => {
+    if (!line.trim()) return;
+    const event: FitAnalysisStreamEvent = JSON.parse(line);
+    if (event.type !== "partial") finished = true;
+    onEvent(event);
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(emit);
+  }
+  try {
+    emit(buffer);
+  } catch (err) {
+    // A half-written last line means the stream was cut off
+    if (!(err instanceof SyntaxError)) throw err;
+  }
+
+  if (!finished) {
+    throw new Error("The analysis was interrupted before it finished. Please try again.");
+  }
+};
+
 // PDF Generation Function
 const generateAnalysisPDF = (
   analysis: CandidateFitAnalysisResult,
@@ -485,63 +555,87 @@ interface FitAnalysisDialogProps {
 
 function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDialogProps) {
   const [username, setUsername] = useState("");
-  const [step, setStep] = useState<"input" | "loading" | "result">("input");
+  const [step, setStep] = useState<"input" | "loading" | "streaming" | "result">("input");
   const [genome, setGenome] = useState<GenomeResponse | null>(null);
   const [analysis, setAnalysis] = useState<CandidateFitAnalysisResult | null>(null);
+  // Sections received so far while the analysis streams
+  const [partialAnalysis, setPartialAnalysis] = useState<PartialCandidateFitAnalysis | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+
+  // Abort any analysis still running when the dialog unmounts
+  useEffect(() => () => requestRef.current?.abort(), []);
 
   const handleAnalyze = async () => {
     if (!username.trim()) return;
 
+    // A new analysis supersedes the one in flight
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
     setStep("loading");
     setError(null);
+    setAnalysis(null);
+    setPartialAnalysis(null);
 
     try {
       // 1. Fetch genome data
-      const genomeData = await getGenome(username.trim());
+      const genomeData = await getGenome(username.trim(), { signal: controller.signal });
       setGenome(genomeData);
 
-      // 2. Generate the prompt using the prompts library
-      const prompt = generateCandidateFitPrompt({ job, genome: genomeData });
-
-      // 3. Send to AI for analysis
-      const aiResponse = await fetch("/api/ai", {
+      // 2. Analyze server-side (the route builds the prompt from the cached job and genome)
+      const aiResponse = await fetch("/api/analyses/fit/stream", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          prompt,
-          systemPrompt: CANDIDATE_FIT_SYSTEM_PROMPT,
-        }),
+        body: JSON.stringify({ jobId: job.id, username: username.trim() }),
+        signal: controller.signal,
       });
 
       if (!aiResponse.ok) {
-        const errorData = await aiResponse.json();
-        throw new Error(errorData.error || "AI analysis failed");
+        throw new Error(analysisErrorMessage(await aiResponse.json()));
       }
 
-      const aiData = await aiResponse.json();
-      
-      // Parse the AI response using the utility function
-      const parsedAnalysis = parseAIResponse(aiData.text);
-      setAnalysis(parsedAnalysis);
-      setStep("result");
+      // 3. Render sections as they arrive; "done" carries the validated analysis
+      await readAnalysisStream(aiResponse, (event) => {
+        if (event.type === "error") throw new Error(analysisErrorMessage(event));
+        if (event.type === "partial") {
+          setPartialAnalysis(event.analysis);
+          setStep("streaming");
+        } else {
+          setAnalysis(event.analysis);
+          setStep("result");
+        }
+      });
     } catch (err) {
-      setError(err instanceof Error ? err.message : "An error occurred");
+      if (isAbortError(err)) return;
+      setError(describeAnalysisError(err, username.trim()));
       setStep("input");
     }
   };
 
+  // Stop a streaming analysis and go back to the username step
+  const handleCancel = () => {
+    requestRef.current?.abort();
+    setStep("input");
+    setPartialAnalysis(null);
+  };
+
   const handleClose = () => {
+    requestRef.current?.abort();
     setUsername("");
     setStep("input");
     setGenome(null);
     setAnalysis(null);
+    setPartialAnalysis(null);
     setError(null);
     onClose();
   };
 
   if (!isOpen) return null;
 
+  const shownAnalysis = analysis ?? partialAnalysis;
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
       {/* Backdrop */}
@@ -675,7 +769,7 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
           )}
 
           {/* Result Step */}
-          {step === "result" && analysis && genome && (
+          {(step === "streaming" || step === "result") && shownAnalysis && genome && (
             <div className="space-y-6">
               {/* Candidate Header */}
               <div className="flex items-center gap-4 rounded-2xl border border-[var(--card-border)] bg-[var(--card-bg)] p-4">
@@ -710,8 +804,27 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                 </a>
               </div>
 
+              {/* Streaming Progress */}
+              {step === "streaming" && (
+                <div className="flex items-center justify-between gap-4 rounded-2xl border border-[var(--card-border)] bg-[var(--card-bg)] px-4 py-3">
+                  <div className="flex items-center gap-3">
+                    <div
+                      className="h-5 w-5 animate-spin rounded-full border-2 border-t-transparent"
+                      style={{ borderColor: `${themeColor}30`, borderTopColor: themeColor }}
+                    />
+                    <span className="text-sm text-[var(--muted)]">Writing the analysis...</span>
+                  </div>
+                  <button
+                    onClick={handleCancel}
+                    className="rounded-lg border border-[var(--card-border)] px-3 py-1.5 text-sm font-medium text-[var(--foreground)] transition-colors hover:bg-[var(--input-bg)]"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+
               {/* Job Summary Section */}
-              {analysis.jobSummary && (
+              {shownAnalysis.jobSummary && (
                 <div className="rounded-2xl border border-[var(--card-border)] bg-[var(--card-bg)] p-6">
                   <div className="mb-4 flex items-center gap-3">
                     <div 
@@ -725,7 +838,7 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                     <h3 className="text-xl font-semibold text-[var(--foreground)]">Job Summary</h3>
                   </div>
                   <div className="prose prose-invert max-w-none text-[var(--muted)] prose-p:leading-relaxed">
-                    {String(analysis.jobSummary).split("\n\n").map((paragraph, idx) => (
+                    {String(shownAnalysis.jobSummary).split("\n\n").map((paragraph, idx) => (
                       <p key={idx}>{paragraph}</p>
                     ))}
                   </div>
@@ -747,16 +860,16 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                     <h3 className="text-xl font-semibold text-[var(--foreground)]">Fit Analysis</h3>
                   </div>
                   {/* Overall Fit Score Badge */}
-                  {analysis.overallFitScore && (
-                    <span className={`rounded-full px-4 py-2 text-sm font-bold ${getFitScoreColor(String(analysis.overallFitScore)).bg} ${getFitScoreColor(String(analysis.overallFitScore)).text}`}>
-                      {String(analysis.overallFitScore)}
+                  {shownAnalysis.overallFitScore && (
+                    <span className={`rounded-full px-4 py-2 text-sm font-bold ${getFitScoreColor(String(shownAnalysis.overallFitScore)).bg} ${getFitScoreColor(String(shownAnalysis.overallFitScore)).text}`}>
+                      {String(shownAnalysis.overallFitScore)}
                     </span>
                   )}
                 </div>
 
                 <div className="space-y-6">
                   {/* Matching Skills */}
-                  {analysis.matchingSkillsAndStrengths && analysis.matchingSkillsAndStrengths.length > 0 && (
+                  {shownAnalysis.matchingSkillsAndStrengths && shownAnalysis.matchingSkillsAndStrengths.length > 0 && (
                     <div>
                       <div className="mb-3 flex items-center gap-2">
                         <svg className="h-5 w-5 text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -765,7 +878,7 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                         <h4 className="font-semibold text-[var(--foreground)]">Matching Skills & Strengths</h4>
                       </div>
                       <ul className="space-y-2 pl-7">
-                        {analysis.matchingSkillsAndStrengths.map((item, idx) => (
+                        {shownAnalysis.matchingSkillsAndStrengths.map((item, idx) => (
                           <li key={idx} className="flex items-start gap-2 text-[var(--muted)]">
                             <span className="mt-1.5 h-1.5 w-1.5 flex-shrink-0 rounded-full bg-green-400" />
                             <span>{item}</span>
@@ -776,7 +889,7 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                   )}
 
                   {/* Areas for Development */}
-                  {analysis.areasForDevelopment && analysis.areasForDevelopment.length > 0 && (
+                  {shownAnalysis.areasForDevelopment && shownAnalysis.areasForDevelopment.length > 0 && (
                     <div>
                       <div className="mb-3 flex items-center gap-2">
                         <svg className="h-5 w-5 text-yellow-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -785,7 +898,7 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                         <h4 className="font-semibold text-[var(--foreground)]">Areas for Development</h4>
                       </div>
                       <ul className="space-y-2 pl-7">
-                        {analysis.areasForDevelopment.map((item, idx) => (
+                        {shownAnalysis.areasForDevelopment.map((item, idx) => (
                           <li key={idx} className="flex items-start gap-2 text-[var(--muted)]">
                             <span className="mt-1.5 h-1.5 w-1.5 flex-shrink-0 rounded-full bg-yellow-400" />
                             <span>{item}</span>
@@ -796,7 +909,7 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                   )}
 
                   {/* Recommendations */}
-                  {analysis.recommendations && analysis.recommendations.length > 0 && (
+                  {shownAnalysis.recommendations && shownAnalysis.recommendations.length > 0 && (
                     <div>
                       <div className="mb-3 flex items-center gap-2">
                         <svg className="h-5 w-5 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -805,7 +918,7 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                         <h4 className="font-semibold text-[var(--foreground)]">Recommendations</h4>
                       </div>
                       <ul className="space-y-2 pl-7">
-                        {analysis.recommendations.map((item, idx) => (
+                        {shownAnalysis.recommendations.map((item, idx) => (
                           <li key={idx} className="flex items-start gap-2 text-[var(--muted)]">
                             <span className="mt-1.5 h-1.5 w-1.5 flex-shrink-0 rounded-full bg-blue-400" />
                             <span>{item}</span>
@@ -818,7 +931,7 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
               </div>
 
               {/* Career Trajectory Section */}
-              {analysis.careerTrajectory && (
+              {shownAnalysis.careerTrajectory && (
                 <div className="rounded-2xl border border-[var(--card-border)] bg-[var(--card-bg)] p-6">
                   <div className="mb-4 flex items-center gap-3">
                     <div 
@@ -834,14 +947,14 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                   
                   <div className="space-y-4">
                     {/* Summary */}
-                    {analysis.careerTrajectory.summary && (
+                    {shownAnalysis.careerTrajectory.summary && (
                       <p className="text-[var(--muted)] leading-relaxed">
-                        {analysis.careerTrajectory.summary}
+                        {shownAnalysis.careerTrajectory.summary}
                       </p>
                     )}
 
                     {/* Growth Indicators */}
-                    {analysis.careerTrajectory.growthIndicators && analysis.careerTrajectory.growthIndicators.length > 0 && (
+                    {shownAnalysis.careerTrajectory.growthIndicators && shownAnalysis.careerTrajectory.growthIndicators.length > 0 && (
                       <div>
                         <div className="mb-3 flex items-center gap-2">
                           <svg className="h-5 w-5 text-purple-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -850,7 +963,7 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                           <h4 className="font-semibold text-[var(--foreground)]">Growth Indicators</h4>
                         </div>
                         <ul className="space-y-2 pl-7">
-                          {analysis.careerTrajectory.growthIndicators.map((item, idx) => (
+                          {shownAnalysis.careerTrajectory.growthIndicators.map((item, idx) => (
                             <li key={idx} className="flex items-start gap-2 text-[var(--muted)]">
                               <span className="mt-1.5 h-1.5 w-1.5 flex-shrink-0 rounded-full bg-purple-400" />
                               <span>{item}</span>
@@ -861,11 +974,11 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                     )}
 
                     {/* Alignment with Role */}
-                    {analysis.careerTrajectory.alignmentWithRole && (
+                    {shownAnalysis.careerTrajectory.alignmentWithRole && (
                       <div className="rounded-xl bg-purple-500/10 p-4">
                         <p className="text-sm text-[var(--muted)]">
                           <span className="font-semibold text-purple-400">Role Alignment: </span>
-                          {analysis.careerTrajectory.alignmentWithRole}
+                          {shownAnalysis.careerTrajectory.alignmentWithRole}
                         </p>
                       </div>
                     )}
@@ -874,7 +987,7 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
               )}
 
               {/* Location & Work Style Section */}
-              {analysis.locationAndWorkStyle && (
+              {shownAnalysis.locationAndWorkStyle && (
                 <div className="rounded-2xl border border-[var(--card-border)] bg-[var(--card-bg)] p-6">
                   <div className="mb-4 flex items-center gap-3">
                     <div 
@@ -891,7 +1004,7 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                   
                   <div className="grid gap-4 sm:grid-cols-3">
                     {/* Location Compatibility */}
-                    {analysis.locationAndWorkStyle.locationCompatibility && (
+                    {shownAnalysis.locationAndWorkStyle.locationCompatibility && (
                       <div className="rounded-xl bg-[var(--input-bg)] p-4">
                         <div className="mb-2 flex items-center gap-2">
                           <svg className="h-4 w-4 text-cyan-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -899,12 +1012,12 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                           </svg>
                           <h5 className="text-sm font-semibold text-[var(--foreground)]">Location</h5>
                         </div>
-                        <p className="text-sm text-[var(--muted)]">{analysis.locationAndWorkStyle.locationCompatibility}</p>
+                        <p className="text-sm text-[var(--muted)]">{shownAnalysis.locationAndWorkStyle.locationCompatibility}</p>
                       </div>
                     )}
 
                     {/* Remote Work */}
-                    {analysis.locationAndWorkStyle.remoteWorkAlignment && (
+                    {shownAnalysis.locationAndWorkStyle.remoteWorkAlignment && (
                       <div className="rounded-xl bg-[var(--input-bg)] p-4">
                         <div className="mb-2 flex items-center gap-2">
                           <svg className="h-4 w-4 text-cyan-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -912,12 +1025,12 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                           </svg>
                           <h5 className="text-sm font-semibold text-[var(--foreground)]">Remote Work</h5>
                         </div>
-                        <p className="text-sm text-[var(--muted)]">{analysis.locationAndWorkStyle.remoteWorkAlignment}</p>
+                        <p className="text-sm text-[var(--muted)]">{shownAnalysis.locationAndWorkStyle.remoteWorkAlignment}</p>
                       </div>
                     )}
 
                     {/* Commitment Level */}
-                    {analysis.locationAndWorkStyle.commitmentLevelMatch && (
+                    {shownAnalysis.locationAndWorkStyle.commitmentLevelMatch && (
                       <div className="rounded-xl bg-[var(--input-bg)] p-4">
                         <div className="mb-2 flex items-center gap-2">
                           <svg className="h-4 w-4 text-cyan-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -925,13 +1038,13 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                           </svg>
                           <h5 className="text-sm font-semibold text-[var(--foreground)]">Commitment</h5>
                         </div>
-                        <p className="text-sm text-[var(--muted)]">{analysis.locationAndWorkStyle.commitmentLevelMatch}</p>
+                        <p className="text-sm text-[var(--muted)]">{shownAnalysis.locationAndWorkStyle.commitmentLevelMatch}</p>
                       </div>
                     )}
                   </div>
 
                   {/* Potential Concerns */}
-                  {analysis.locationAndWorkStyle.potentialConcerns && analysis.locationAndWorkStyle.potentialConcerns.length > 0 && (
+                  {shownAnalysis.locationAndWorkStyle.potentialConcerns && shownAnalysis.locationAndWorkStyle.potentialConcerns.length > 0 && (
                     <div className="mt-4">
                       <div className="mb-3 flex items-center gap-2">
                         <svg className="h-5 w-5 text-orange-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -940,7 +1053,7 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                         <h4 className="font-semibold text-[var(--foreground)]">Potential Concerns</h4>
                       </div>
                       <ul className="space-y-2 pl-7">
-                        {analysis.locationAndWorkStyle.potentialConcerns.map((item, idx) => (
+                        {shownAnalysis.locationAndWorkStyle.potentialConcerns.map((item, idx) => (
                           <li key={idx} className="flex items-start gap-2 text-[var(--muted)]">
                             <span className="mt-1.5 h-1.5 w-1.5 flex-shrink-0 rounded-full bg-orange-400" />
                             <span>{item}</span>
@@ -953,7 +1066,7 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
               )}
 
               {/* Professional Credibility Section */}
-              {analysis.professionalCredibility && (
+              {shownAnalysis.professionalCredibility && (
                 <div className="rounded-2xl border border-[var(--card-border)] bg-[var(--card-bg)] p-6">
                   <div className="mb-4 flex items-center gap-3">
                     <div 
@@ -969,17 +1082,17 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                   
                   <div className="space-y-4">
                     {/* Profile Quality */}
-                    {analysis.professionalCredibility.profileQuality && (
+                    {shownAnalysis.professionalCredibility.profileQuality && (
                       <div className="rounded-xl bg-teal-500/10 p-4">
                         <p className="text-sm text-[var(--muted)]">
                           <span className="font-semibold text-teal-400">Profile Quality: </span>
-                          {analysis.professionalCredibility.profileQuality}
+                          {shownAnalysis.professionalCredibility.profileQuality}
                         </p>
                       </div>
                     )}
 
                     {/* Professional Presence */}
-                    {analysis.professionalCredibility.professionalPresence && analysis.professionalCredibility.professionalPresence.length > 0 && (
+                    {shownAnalysis.professionalCredibility.professionalPresence && shownAnalysis.professionalCredibility.professionalPresence.length > 0 && (
                       <div>
                         <div className="mb-3 flex items-center gap-2">
                           <svg className="h-5 w-5 text-teal-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -988,7 +1101,7 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                           <h4 className="font-semibold text-[var(--foreground)]">Professional Presence</h4>
                         </div>
                         <ul className="space-y-2 pl-7">
-                          {analysis.professionalCredibility.professionalPresence.map((item, idx) => (
+                          {shownAnalysis.professionalCredibility.professionalPresence.map((item, idx) => (
                             <li key={idx} className="flex items-start gap-2 text-[var(--muted)]">
                               <span className="mt-1.5 h-1.5 w-1.5 flex-shrink-0 rounded-full bg-teal-400" />
                               <span>{item}</span>
@@ -999,7 +1112,7 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                     )}
 
                     {/* Credibility Indicators */}
-                    {analysis.professionalCredibility.credibilityIndicators && analysis.professionalCredibility.credibilityIndicators.length > 0 && (
+                    {shownAnalysis.professionalCredibility.credibilityIndicators && shownAnalysis.professionalCredibility.credibilityIndicators.length > 0 && (
                       <div>
                         <div className="mb-3 flex items-center gap-2">
                           <svg className="h-5 w-5 text-teal-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -1008,7 +1121,7 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
                           <h4 className="font-semibold text-[var(--foreground)]">Credibility Indicators</h4>
                         </div>
                         <ul className="space-y-2 pl-7">
-                          {analysis.professionalCredibility.credibilityIndicators.map((item, idx) => (
+                          {shownAnalysis.professionalCredibility.credibilityIndicators.map((item, idx) => (
                             <li key={idx} className="flex items-start gap-2 text-[var(--muted)]">
                               <span className="mt-1.5 h-1.5 w-1.5 flex-shrink-0 rounded-full bg-teal-400" />
                               <span>{item}</span>
@@ -1022,32 +1135,35 @@ function FitAnalysisDialog({ isOpen, onClose, job, themeColor }: FitAnalysisDial
               )}
 
               {/* Actions */}
-              <div className="flex flex-wrap justify-end gap-3">
-                <button
-                  onClick={() => generateAnalysisPDF(analysis, genome, job)}
-                  className="flex items-center gap-2 rounded-xl px-6 py-3 font-semibold transition-all hover:opacity-90"
-                  style={{ 
-                    backgroundColor: themeColor,
-                    color: "#0f0f12",
-                  }}
-                >
-                  <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                  </svg>
-                  Download PDF
-                </button>
-                <button
-                  onClick={() => {
-                    setStep("input");
-                    setUsername("");
-                    setGenome(null);
-                    setAnalysis(null);
-                  }}
-                  className="rounded-xl border border-[var(--card-border)] bg-[var(--card-bg)] px-6 py-3 font-semibold text-[var(--foreground)] transition-colors hover:bg-[var(--input-bg)]"
-                >
-                  Analyze Another Candidate
-                </button>
-              </div>
+              {step === "result" && analysis && (
+                <div className="flex flex-wrap justify-end gap-3">
+                  <button
+                    onClick={() => generateAnalysisPDF(analysis, genome, job)}
+                    className="flex items-center gap-2 rounded-xl px-6 py-3 font-semibold transition-all hover:opacity-90"
+                    style={{ 
+                      backgroundColor: themeColor,
+                      color: "#0f0f12",
+                    }}
+                  >
+                    <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                    </svg>
+                    Download PDF
+                  </button>
+                  <button
+                    onClick={() => {
+                      setStep("input");
+                      setUsername("");
+                      setGenome(null);
+                      setAnalysis(null);
+                      setPartialAnalysis(null);
+                    }}
+                    className="rounded-xl border border-[var(--card-border)] bg-[var(--card-bg)] px-6 py-3 font-semibold text-[var(--foreground)] transition-colors hover:bg-[var(--input-bg)]"
+                  >
+                    Analyze Another Candidate
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -1060,25 +1176,30 @@ export default function JobDetailsPage({ params }: { params: Promise<{ id: strin
   const { id } = use(params);
   const [job, setJob] = useState<JobDetails | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
 
   useEffect(() => {
+    const controller = new AbortController();
+
     const loadJobDetails = async () => {
       setLoading(true);
       setError(null);
       try {
-        const data = await fetchJobDetailsApi(id);
+        const data = await fetchJobDetailsApi(id, { signal: controller.signal });
         setJob(data);
       } catch (err) {
-        setError(err instanceof Error ? err.message : "Failed to fetch job details");
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err : new Error("Failed to fetch job details"));
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     };
 
     loadJobDetails();
-  }, [id]);
+    return () => controller.abort();
+  }, [id, reloadCount]);
 
   if (loading) {
     return (
@@ -1104,6 +1225,9 @@ export default function JobDetailsPage({ params }: { params: Promise<{ id: strin
   }
 
   if (error || !job) {
+    const { title, message, retryable } = describeJobError(error);
+    // Quoted in bug reports to find the matching server logs
+    const requestId = error instanceof TorreApiError ? error.requestId : undefined;
     return (
       <div className="min-h-screen bg-[var(--background)] px-4 py-12 sm:px-6 lg:px-8">
         <div className="mx-auto max-w-4xl text-center">
@@ -1111,17 +1235,35 @@ export default function JobDetailsPage({ params }: { params: Promise<{ id: strin
             <svg className="mx-auto mb-4 h-16 w-16 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
-            <h2 className="mb-2 text-2xl font-semibold text-red-400">Job Not Found</h2>
-            <p className="mb-6 text-[var(--muted)]">{error || "This job posting may have been removed or is no longer available."}</p>
-            <Link
-              href="/jobs"
-              className="inline-flex items-center gap-2 rounded-xl bg-[var(--accent)] px-6 py-3 font-semibold text-[var(--background)] transition-all hover:bg-[var(--accent-dark)]"
-            >
-              <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
-              </svg>
-              Back to Jobs
-            </Link>
+            <h2 className="mb-2 text-2xl font-semibold text-red-400">{title}</h2>
+            <p className="mb-6 text-[var(--muted)]">{message}</p>
+            <div className="flex flex-wrap items-center justify-center gap-3">
+              {retryable && (
+                <button
+                  onClick={() => setReloadCount((count) => count + 1)}
+                  className="inline-flex items-center gap-2 rounded-xl border border-[var(--card-border)] bg-[var(--card-bg)] px-6 py-3 font-semibold text-[var(--foreground)] transition-all hover:border-[var(--accent)]"
+                >
+                  <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                  </svg>
+                  Retry
+                </button>
+              )}
+              <Link
+                href="/jobs"
+                className="inline-flex items-center gap-2 rounded-xl bg-[var(--accent)] px-6 py-3 font-semibold text-[var(--background)] transition-all hover:bg-[var(--accent-dark)]"
+              >
+                <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                </svg>
+                Back to Jobs
+              </Link>
+            </div>
+            {requestId && (
+              <p className="mt-6 text-xs text-[var(--muted)]">
+                Request ID: <code className="select-all font-mono">{requestId}</code>
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -1,14 +1,93 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import Link from "next/link";
 import Image from "next/image";
 import { 
   searchOpportunities, 
   type JobResult, 
   type Compensation, 
-  type Place 
+  type Place,
+  type SearchPagination,
+  type SearchFilters,
+  type SearchNode,
+  type SearchAggregators,
+  type FacetKey,
+  type FacetSelection,
+  type SearchOptions,
+  type SearchCurrency,
+  type SearchPeriodicity,
+  searchFilter,
+  refineSearchFilters,
+  parseCompensationBucket,
+  SUPPORTED_CURRENCIES,
+  SUPPORTED_PERIODICITIES,
 } from "@/lib/torre-api";
+import { isAbortError } from "@/lib/torre-errors";
+
+type PaginationMode = "pages" | "infinite";
+
+const EMPTY_PAGINATION: SearchPagination = { previous: null, next: null };
+
+interface AdvancedFilters {
+  remote: boolean;
+  quickApply: boolean;
+  organization: string;
+  location: string;
+  type: string;
+  minCompensation: string;
+  anySkills: string;
+  excludeKeyword: string;
+}
+
+const DEFAULT_ADVANCED_FILTERS: AdvancedFilters = {
+  remote: false,
+  quickApply: false,
+  organization: "",
+  location: "",
+  type: "",
+  minCompensation: "",
+  anySkills: "",
+  excludeKeyword: "",
+};
+
+const OPPORTUNITY_TYPES = [
+  "full-time-employment",
+  "part-time-employment",
+  "freelance",
+  "internship",
+  "flexible-jobs",
+];
+
+// Build the search filters from the search bar state
+const buildSearchFilters = (keyword: string, advanced: AdvancedFilters): SearchFilters => {
+  const where: SearchNode[] = [];
+
+  const anySkills = advanced.anySkills.split(",").map((skill) => skill.trim()).filter(Boolean);
+  if (anySkills.length > 0) {
+    where.push(searchFilter.or(...anySkills.map((skill) => searchFilter.skill(skill))));
+  }
+  if (advanced.excludeKeyword.trim()) {
+    where.push(searchFilter.not(searchFilter.keyword(advanced.excludeKeyword.trim())));
+  }
+
+  const minCompensation = Number(advanced.minCompensation);
+
+  return {
+    keyword,
+    status: "open",
+    remote: advanced.remote || undefined,
+    quickApply: advanced.quickApply || undefined,
+    organization: advanced.organization.trim() || undefined,
+    location: advanced.location.trim() || undefined,
+    type: advanced.type || undefined,
+    compensation: minCompensation > 0 ? { minAmount: minCompensation } : undefined,
+    where: where.length > 0 ? searchFilter.and(...where) : undefined,
+  };
+};
+
+const countActiveFilters = (advanced: AdvancedFilters): number =>
+  Object.entries(advanced).filter(([key, value]) => value !== DEFAULT_ADVANCED_FILTERS[key as keyof AdvancedFilters]).length;
 
 // Helper functions for formatting
 const formatType = (type: string): string => {
@@ -301,35 +380,254 @@ const JobCard = ({ job }: { job: JobResult }) => {
   );
 };
 
+const FACET_SECTIONS: Array<{ facet: FacetKey; title: string }> = [
+  { facet: "type", title: "Type" },
+  { facet: "remote", title: "Remote" },
+  { facet: "skill", title: "Skills" },
+  { facet: "organization", title: "Organizations" },
+  { facet: "compensationrange", title: "Compensation" },
+];
+
+const MAX_FACET_BUCKETS = 8;
+
+const PERIODICITY_LABELS: Record<SearchPeriodicity, { short: string; long: string }> = {
+  hourly: { short: "hr", long: "Hourly" },
+  monthly: { short: "mo", long: "Monthly" },
+  yearly: { short: "yr", long: "Yearly" },
+};
+
+const formatFacetValue = (facet: FacetKey, value: string): string => {
+  switch (facet) {
+    case "type":
+      return formatType(value);
+    case "remote":
+      return value === "yes" || value === "true" ? "Remote" : "On-site";
+    case "compensationrange": {
+      const range = parseCompensationBucket(value);
+      if (!range) return value;
+      return range.maxAmount != null
+        ? `${range.minAmount?.toLocaleString()} - ${range.maxAmount.toLocaleString()}`
+        : `${range.minAmount?.toLocaleString()}+`;
+    }
+    default:
+      return value;
+  }
+};
+
+// Facet Sidebar Component
+const FacetSidebar = ({
+  aggregators,
+  selections,
+  compensationUnit,
+  onToggle,
+}: {
+  aggregators: SearchAggregators | null;
+  selections: FacetSelection[];
+  compensationUnit: string;
+  onToggle: (selection: FacetSelection) => void;
+}) => {
+  const sections = FACET_SECTIONS
+    .map((section) => ({ ...section, buckets: (aggregators?.[section.facet] || []).slice(0, MAX_FACET_BUCKETS) }))
+    .filter((section) => section.buckets.length > 0);
+
+  if (sections.length === 0 && selections.length === 0) return null;
+
+  const isSelected = (facet: FacetKey, value: string) =>
+    selections.some((selection) => selection.facet === facet && selection.value === value);
+
+  return (
+    <aside className="w-full flex-shrink-0 space-y-6 lg:w-64">
+      {selections.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selections.map((selection) => (
+            <button
+              key={`${selection.facet}:${selection.value}`}
+              onClick={() => onToggle(selection)}
+              className="flex items-center gap-1 rounded-full bg-[var(--accent)] px-3 py-1 text-xs font-medium text-[var(--background)]"
+            >
+              {formatFacetValue(selection.facet, selection.value)}
+              <svg className="h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          ))}
+        </div>
+      )}
+      {sections.map(({ facet, title, buckets }) => (
+        <div key={facet} className="rounded-2xl border border-[var(--card-border)] bg-[var(--card-bg)] p-4">
+          <p className="mb-3 text-xs font-medium uppercase tracking-wider text-[var(--muted)]">
+            {title}{facet === "compensationrange" && ` (${compensationUnit})`}
+          </p>
+          <ul className="space-y-1">
+            {buckets.map((bucket) => (
+              <li key={bucket.value}>
+                <button
+                  onClick={() => onToggle({ facet, value: bucket.value })}
+                  className={`flex w-full items-center justify-between gap-2 rounded-lg px-2 py-1.5 text-left text-sm transition-colors hover:bg-[var(--input-bg)] ${
+                    isSelected(facet, bucket.value) ? "text-[var(--accent)]" : "text-[var(--foreground)]"
+                  }`}
+                >
+                  <span className="truncate">{formatFacetValue(facet, bucket.value)}</span>
+                  <span className="text-xs text-[var(--muted)]">{bucket.total.toLocaleString()}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </aside>
+  );
+};
+
 export default function JobsPage() {
   const [searchTerm, setSearchTerm] = useState("Designer");
   const [results, setResults] = useState<JobResult[]>([]);
   const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [size, setSize] = useState(12);
+  const [currency, setCurrency] = useState<SearchCurrency>("USD");
+  const [periodicity, setPeriodicity] = useState<SearchPeriodicity>("hourly");
+  const [pagination, setPagination] = useState<SearchPagination>(EMPTY_PAGINATION);
+  const [page, setPage] = useState(1);
+  const [mode, setMode] = useState<PaginationMode>("pages");
+  const [advancedFilters, setAdvancedFilters] = useState<AdvancedFilters>(DEFAULT_ADVANCED_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [aggregators, setAggregators] = useState<SearchAggregators | null>(null);
+  const [facetSelections, setFacetSelections] = useState<FacetSelection[]>([]);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const requestRef = useRef<AbortController | null>(null);
+
+  const filters = useMemo(
+    () => facetSelections.reduce(
+      (refined, selection) => refineSearchFilters(refined, selection.facet, selection.value),
+      buildSearchFilters(searchTerm, advancedFilters)
+    ),
+    [searchTerm, advancedFilters, facetSelections]
+  );
+  const searchOptions = useMemo<SearchOptions>(
+    () => ({ size, currency, periodicity }),
+    [size, currency, periodicity]
+  );
+  const compensationUnit = `${currency}/${PERIODICITY_LABELS[periodicity].short}`;
+  const activeFilterCount = countActiveFilters(advancedFilters);
+
+  const updateFilter = <K extends keyof AdvancedFilters>(key: K, value: AdvancedFilters[K]) => {
+    setAdvancedFilters((current) => ({ ...current, [key]: value }));
+  };
+
+  const toggleFacet = (selection: FacetSelection) => {
+    setFacetSelections((current) =>
+      current.some((s) => s.facet === selection.facet && s.value === selection.value)
+        ? current.filter((s) => s.facet !== selection.facet || s.value !== selection.value)
+        : [...current.filter((s) => s.facet === "skill" || s.facet !== selection.facet), selection]
+    );
+  };
+
+  // Cancel the request in flight, whose results the new one supersedes
+  const startRequest = () => {
+    requestRef.current?.abort();
+    requestRef.current = new AbortController();
+    return requestRef.current.signal;
+  };
 
   const searchJobs = useCallback(async () => {
+    const signal = startRequest();
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await searchOpportunities(filters, { ...searchOptions, aggregate: true, signal });
+      setResults(data.results || []);
+      setTotal(data.total || 0);
+      setPagination(data.pagination || EMPTY_PAGINATION);
+      setAggregators(data.aggregators || null);
+      setPage(1);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(err instanceof Error ? err.message : "Failed to fetch jobs");
+    } finally {
+      if (!signal.aborted) setLoading(false);
+    }
+  }, [filters, searchOptions]);
+
+  // Replace the current page with the previous/next one (pages mode)
+  const goToPage = useCallback(async (direction: keyof SearchPagination) => {
+    const cursor = pagination[direction];
+    if (!cursor) return;
+
+    const signal = startRequest();
     setLoading(true);
     setError(null);
     try {
       const data = await searchOpportunities(
-        { keyword: searchTerm, status: "open" },
-        { size }
+        filters,
+        direction === "next" ? { ...searchOptions, after: cursor, signal } : { ...searchOptions, before: cursor, signal }
       );
       setResults(data.results || []);
       setTotal(data.total || 0);
+      setPagination(data.pagination || EMPTY_PAGINATION);
+      setPage((current) => (direction === "next" ? current + 1 : Math.max(1, current - 1)));
+      window.scrollTo({ top: 0, behavior: "smooth" });
     } catch (err) {
+      if (isAbortError(err)) return;
       setError(err instanceof Error ? err.message : "Failed to fetch jobs");
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
+    }
+  }, [filters, searchOptions, pagination]);
+
+  // Append the next page to the current results (infinite mode)
+  const loadMore = useCallback(async () => {
+    if (!pagination.next || loading || loadingMore) return;
+
+    const signal = startRequest();
+    setLoadingMore(true);
+    setError(null);
+    try {
+      const data = await searchOpportunities(filters, { ...searchOptions, after: pagination.next, signal });
+      setResults((current) => {
+        const seen = new Set(current.map((job) => job.id));
+        return [...current, ...(data.results || []).filter((job) => !seen.has(job.id))];
+      });
+      setTotal(data.total || 0);
+      setPagination(data.pagination || EMPTY_PAGINATION);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(err instanceof Error ? err.message : "Failed to load more jobs");
+    } finally {
+      setLoadingMore(false);
     }
-  }, [searchTerm, size]);
+  }, [filters, searchOptions, pagination, loading, loadingMore]);
+
+  const changeMode = (nextMode: PaginationMode) => {
+    if (nextMode === mode) return;
+    setMode(nextMode);
+    searchJobs();
+  };
 
   useEffect(() => {
     searchJobs();
   }, [searchJobs]);
 
+  // Drop any request still in flight when leaving the page
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  // Trigger loadMore when the sentinel below the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (mode !== "infinite" || !sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) loadMore();
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [mode, loadMore]);
+
   return (
     <div className="min-h-screen bg-[var(--background)] px-4 py-12 sm:px-6 lg:px-8">
       <div className="mx-auto max-w-7xl">
@@ -384,6 +682,55 @@ export default function JobsPage() {
               <option value={48}>48</option>
             </select>
           </div>
+          <div className="w-full sm:w-28">
+            <label className="mb-2 block text-sm font-medium text-[var(--muted)]">Currency</label>
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value as SearchCurrency)}
+              className="w-full rounded-xl border border-[var(--card-border)] bg-[var(--card-bg)] px-4 py-4 text-[var(--foreground)] outline-none transition-colors focus:border-[var(--accent)] focus:ring-1 focus:ring-[var(--accent)]"
+            >
+              {SUPPORTED_CURRENCIES.map((code) => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </div>
+          <div className="w-full sm:w-36">
+            <label className="mb-2 block text-sm font-medium text-[var(--muted)]">Period</label>
+            <select
+              value={periodicity}
+              onChange={(e) => setPeriodicity(e.target.value as SearchPeriodicity)}
+              className="w-full rounded-xl border border-[var(--card-border)] bg-[var(--card-bg)] px-4 py-4 text-[var(--foreground)] outline-none transition-colors focus:border-[var(--accent)] focus:ring-1 focus:ring-[var(--accent)]"
+            >
+              {SUPPORTED_PERIODICITIES.map((value) => (
+                <option key={value} value={value}>{PERIODICITY_LABELS[value].long}</option>
+              ))}
+            </select>
+          </div>
+          <div className="w-full sm:w-44">
+            <label className="mb-2 block text-sm font-medium text-[var(--muted)]">Paging</label>
+            <select
+              value={mode}
+              onChange={(e) => changeMode(e.target.value as PaginationMode)}
+              className="w-full rounded-xl border border-[var(--card-border)] bg-[var(--card-bg)] px-4 py-4 text-[var(--foreground)] outline-none transition-colors focus:border-[var(--accent)] focus:ring-1 focus:ring-[var(--accent)]"
+            >
+              <option value="pages">Pages</option>
+              <option value="infinite">Infinite scroll</option>
+            </select>
+          </div>
+          <button
+            onClick={() => setShowFilters((open) => !open)}
+            className="flex items-center justify-center gap-2 rounded-xl border border-[var(--card-border)] bg-[var(--card-bg)] px-6 py-4 font-semibold text-[var(--foreground)] transition-colors hover:border-[var(--accent)]"
+          >
+            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
+            </svg>
+            Filters
+            {activeFilterCount > 0 && (
+              <span className="rounded-full bg-[var(--accent)] px-2 py-0.5 text-xs text-[var(--background)]">
+                {activeFilterCount}
+              </span>
+            )}
+          </button>
           <button
             onClick={searchJobs}
             disabled={loading}
@@ -405,6 +752,106 @@ export default function JobsPage() {
           </button>
         </div>
 
+        {/* Advanced Filters */}
+        {showFilters && (
+          <div className="-mt-6 mb-10 rounded-2xl border border-[var(--card-border)] bg-[var(--card-bg)] p-6">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              <div>
+                <label className="mb-2 block text-sm font-medium text-[var(--muted)]">Opportunity Type</label>
+                <select
+                  value={advancedFilters.type}
+                  onChange={(e) => updateFilter("type", e.target.value)}
+                  className="w-full rounded-xl border border-[var(--card-border)] bg-[var(--input-bg)] px-4 py-3 text-[var(--foreground)] outline-none transition-colors focus:border-[var(--accent)] focus:ring-1 focus:ring-[var(--accent)]"
+                >
+                  <option value="">Any type</option>
+                  {OPPORTUNITY_TYPES.map((type) => (
+                    <option key={type} value={type}>{formatType(type)}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium text-[var(--muted)]">Organization</label>
+                <input
+                  type="text"
+                  value={advancedFilters.organization}
+                  onChange={(e) => updateFilter("organization", e.target.value)}
+                  className="w-full rounded-xl border border-[var(--card-border)] bg-[var(--input-bg)] px-4 py-3 text-[var(--foreground)] placeholder-[var(--muted)] outline-none transition-colors focus:border-[var(--accent)] focus:ring-1 focus:ring-[var(--accent)]"
+                  placeholder="e.g., Torre"
+                />
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium text-[var(--muted)]">Location</label>
+                <input
+                  type="text"
+                  value={advancedFilters.location}
+                  onChange={(e) => updateFilter("location", e.target.value)}
+                  className="w-full rounded-xl border border-[var(--card-border)] bg-[var(--input-bg)] px-4 py-3 text-[var(--foreground)] placeholder-[var(--muted)] outline-none transition-colors focus:border-[var(--accent)] focus:ring-1 focus:ring-[var(--accent)]"
+                  placeholder="e.g., Colombia"
+                />
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium text-[var(--muted)]">Minimum Compensation ({compensationUnit})</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={advancedFilters.minCompensation}
+                  onChange={(e) => updateFilter("minCompensation", e.target.value)}
+                  className="w-full rounded-xl border border-[var(--card-border)] bg-[var(--input-bg)] px-4 py-3 text-[var(--foreground)] placeholder-[var(--muted)] outline-none transition-colors focus:border-[var(--accent)] focus:ring-1 focus:ring-[var(--accent)]"
+                  placeholder="e.g., 25"
+                />
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium text-[var(--muted)]">Any of These Skills</label>
+                <input
+                  type="text"
+                  value={advancedFilters.anySkills}
+                  onChange={(e) => updateFilter("anySkills", e.target.value)}
+                  className="w-full rounded-xl border border-[var(--card-border)] bg-[var(--input-bg)] px-4 py-3 text-[var(--foreground)] placeholder-[var(--muted)] outline-none transition-colors focus:border-[var(--accent)] focus:ring-1 focus:ring-[var(--accent)]"
+                  placeholder="e.g., Figma, Sketch"
+                />
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium text-[var(--muted)]">Exclude Keyword</label>
+                <input
+                  type="text"
+                  value={advancedFilters.excludeKeyword}
+                  onChange={(e) => updateFilter("excludeKeyword", e.target.value)}
+                  className="w-full rounded-xl border border-[var(--card-border)] bg-[var(--input-bg)] px-4 py-3 text-[var(--foreground)] placeholder-[var(--muted)] outline-none transition-colors focus:border-[var(--accent)] focus:ring-1 focus:ring-[var(--accent)]"
+                  placeholder="e.g., Senior"
+                />
+              </div>
+            </div>
+            <div className="mt-4 flex flex-wrap items-center gap-6">
+              <label className="flex items-center gap-2 text-sm text-[var(--foreground)]">
+                <input
+                  type="checkbox"
+                  checked={advancedFilters.remote}
+                  onChange={(e) => updateFilter("remote", e.target.checked)}
+                  className="h-4 w-4 accent-[var(--accent)]"
+                />
+                Remote only
+              </label>
+              <label className="flex items-center gap-2 text-sm text-[var(--foreground)]">
+                <input
+                  type="checkbox"
+                  checked={advancedFilters.quickApply}
+                  onChange={(e) => updateFilter("quickApply", e.target.checked)}
+                  className="h-4 w-4 accent-[var(--accent)]"
+                />
+                Quick apply
+              </label>
+              {activeFilterCount > 0 && (
+                <button
+                  onClick={() => setAdvancedFilters(DEFAULT_ADVANCED_FILTERS)}
+                  className="ml-auto text-sm text-[var(--muted)] transition-colors hover:text-[var(--foreground)]"
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Error State */}
         {error && (
           <div className="mb-8 rounded-xl border border-red-500/30 bg-red-950/20 p-6 text-center">
@@ -417,50 +864,119 @@ export default function JobsPage() {
           </div>
         )}
 
-        {/* Loading State */}
-        {loading && (
-          <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
-            {Array.from({ length: size }).map((_, i) => (
-              <div key={i} className="rounded-2xl border border-[var(--card-border)] bg-[var(--card-bg)] p-6">
-                <div className="mb-4 flex items-center gap-3">
-                  <div className="h-12 w-12 rounded-xl loading-shimmer" />
-                  <div className="flex-1">
-                    <div className="mb-2 h-4 w-24 rounded loading-shimmer" />
-                    <div className="h-3 w-16 rounded loading-shimmer" />
+        <div className="flex flex-col gap-8 lg:flex-row lg:items-start">
+          {/* Facet Sidebar */}
+          <FacetSidebar
+            aggregators={aggregators}
+            selections={facetSelections}
+            compensationUnit={compensationUnit}
+            onToggle={toggleFacet}
+          />
+
+          <div className="min-w-0 flex-1">
+            {/* Loading State */}
+            {loading && (
+              <div className="grid gap-6 sm:grid-cols-2 xl:grid-cols-3">
+                {Array.from({ length: size }).map((_, i) => (
+                  <div key={i} className="rounded-2xl border border-[var(--card-border)] bg-[var(--card-bg)] p-6">
+                    <div className="mb-4 flex items-center gap-3">
+                      <div className="h-12 w-12 rounded-xl loading-shimmer" />
+                      <div className="flex-1">
+                        <div className="mb-2 h-4 w-24 rounded loading-shimmer" />
+                        <div className="h-3 w-16 rounded loading-shimmer" />
+                      </div>
+                    </div>
+                    <div className="mb-3 h-6 w-3/4 rounded loading-shimmer" />
+                    <div className="mb-2 h-4 w-full rounded loading-shimmer" />
+                    <div className="mb-4 h-4 w-2/3 rounded loading-shimmer" />
+                    <div className="flex gap-2">
+                      <div className="h-6 w-16 rounded-lg loading-shimmer" />
+                      <div className="h-6 w-20 rounded-lg loading-shimmer" />
+                      <div className="h-6 w-14 rounded-lg loading-shimmer" />
+                    </div>
                   </div>
-                </div>
-                <div className="mb-3 h-6 w-3/4 rounded loading-shimmer" />
-                <div className="mb-2 h-4 w-full rounded loading-shimmer" />
-                <div className="mb-4 h-4 w-2/3 rounded loading-shimmer" />
-                <div className="flex gap-2">
-                  <div className="h-6 w-16 rounded-lg loading-shimmer" />
-                  <div className="h-6 w-20 rounded-lg loading-shimmer" />
-                  <div className="h-6 w-14 rounded-lg loading-shimmer" />
-                </div>
+                ))}
               </div>
-            ))}
-          </div>
-        )}
+            )}
 
-        {/* Results Grid */}
-        {!loading && results.length > 0 && (
-          <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
-            {results.map((job) => (
-              <JobCard key={job.id} job={job} />
-            ))}
-          </div>
-        )}
+            {/* Results Grid */}
+            {!loading && results.length > 0 && (
+              <div className="grid gap-6 sm:grid-cols-2 xl:grid-cols-3">
+                {results.map((job) => (
+                  <JobCard key={job.id} job={job} />
+                ))}
+              </div>
+            )}
 
-        {/* Empty State */}
-        {!loading && !error && results.length === 0 && (
-          <div className="rounded-2xl border border-[var(--card-border)] bg-[var(--card-bg)] p-12 text-center">
-            <svg className="mx-auto mb-4 h-16 w-16 text-[var(--muted)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-            </svg>
-            <h3 className="mb-2 text-xl font-semibold text-[var(--foreground)]">No jobs found</h3>
-            <p className="text-[var(--muted)]">Try adjusting your search term or filters</p>
+            {/* Pagination - Pages Mode */}
+            {!loading && mode === "pages" && results.length > 0 && (pagination.previous || pagination.next) && (
+              <div className="mt-10 flex items-center justify-center gap-4">
+                <button
+                  onClick={() => goToPage("previous")}
+                  disabled={!pagination.previous}
+                  className="flex items-center gap-2 rounded-xl border border-[var(--card-border)] bg-[var(--card-bg)] px-5 py-3 text-sm font-semibold text-[var(--foreground)] transition-colors hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                  </svg>
+                  Previous
+                </button>
+                <span className="text-sm text-[var(--muted)]">
+                  Page {page} of {Math.max(1, Math.ceil(total / size)).toLocaleString()}
+                </span>
+                <button
+                  onClick={() => goToPage("next")}
+                  disabled={!pagination.next}
+                  className="flex items-center gap-2 rounded-xl border border-[var(--card-border)] bg-[var(--card-bg)] px-5 py-3 text-sm font-semibold text-[var(--foreground)] transition-colors hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  Next
+                  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </button>
+              </div>
+            )}
+
+            {/* Pagination - Infinite Scroll Mode */}
+            {!loading && mode === "infinite" && results.length > 0 && (
+              <div className="mt-10 flex flex-col items-center gap-3">
+                <p className="text-sm text-[var(--muted)]">
+                  Showing {results.length.toLocaleString()} of {total.toLocaleString()} positions
+                </p>
+                {pagination.next && (
+                  <>
+                    <div ref={sentinelRef} className="h-px w-full" />
+                    <button
+                      onClick={loadMore}
+                      disabled={loadingMore}
+                      className="flex items-center gap-2 rounded-xl border border-[var(--card-border)] bg-[var(--card-bg)] px-6 py-3 text-sm font-semibold text-[var(--foreground)] transition-colors hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {loadingMore ? (
+                        <>
+                          <div className="h-4 w-4 animate-spin rounded-full border-2 border-[var(--accent)] border-t-transparent" />
+                          Loading more...
+                        </>
+                      ) : (
+                        "Load more"
+                      )}
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Empty State */}
+            {!loading && !error && results.length === 0 && (
+              <div className="rounded-2xl border border-[var(--card-border)] bg-[var(--card-bg)] p-12 text-center">
+                <svg className="mx-auto mb-4 h-16 w-16 text-[var(--muted)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                </svg>
+                <h3 className="mb-2 text-xl font-semibold text-[var(--foreground)]">No jobs found</h3>
+                <p className="text-[var(--muted)]">Try adjusting your search term or filters</p>
+              </div>
+            )}
           </div>
-        )}
+        </div>
 
         {/* Footer */}
         <footer className="mt-12 text-center text-sm text-[var(--muted)]">
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import { 
   searchOpportunities as searchOpportunitiesApi,
   getJobDetails as getJobDetailsApi,
@@ -191,6 +192,12 @@ export default function Home() {
           <p className="text-lg text-[var(--muted)]">
             Test and explore Torre&apos;s public API endpoints
           </p>
+          <Link
+            href="/docs"
+            className="mt-4 inline-flex items-center gap-2 text-sm font-medium text-[var(--accent)] hover:underline"
+          >
+            API reference (OpenAPI) →
+          </Link>
         </div>
 
         <div className="space-y-8">
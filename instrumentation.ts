@@ -0,0 +1,12 @@
+/**
+ * Instrumentation
+ * Runs once when a server instance starts
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // Fail fast: an invalid environment stops the server with every problem listed
+    const { getConfig } = await import("./lib/config");
+    getConfig();
+  }
+}
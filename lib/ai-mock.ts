@@ -0,0 +1,341 @@
+/**
+ * AI Mock Provider
+ * Deterministic fake language model for offline tests and demos (AI_MODEL=mock:demo).
+ * Fit analyses are derived from the job and candidate in the prompt, so the same
+ * inputs always produce the same schema-valid result.
+ */
+
+import {
+  APICallError,
+  NoSuchModelError,
+  type JSONSchema7,
+  type LanguageModelV2,
+  type LanguageModelV2CallOptions,
+  type LanguageModelV2FinishReason,
+  type LanguageModelV2StreamPart,
+  type LanguageModelV2Usage,
+  type ProviderV2,
+} from "@ai-sdk/provider";
+import { FIT_SCORES, type CandidateFitAnalysisResult } from "./prompts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How the mock model misbehaves (AI_MOCK_FAILURE):
+ * - "error": the provider fails (mid-stream when streaming)
+ * - "invalid-output": the output does not match the requested schema
+ * - "truncated": the output stops halfway, as if it hit the token limit
+ */
+export type MockFailureMode = "none" | "error" | "invalid-output" | "truncated";
+
+export interface AIMockSettings {
+  failure: MockFailureMode;
+  /** Delay between streamed chunks */
+  latencyMs: number;
+}
+
+interface MockOutput {
+  text: string;
+  finishReason: LanguageModelV2FinishReason;
+}
+
+// ============================================================================
+// Prompt Reading
+// ============================================================================
+
+// The text of every system and user message
+const promptText = (options: LanguageModelV2CallOptions): string =>
+  options.prompt
+    .flatMap((message) =>
+      message.role === "system"
+        ? [message.content]
+        : message.role === "user"
+          ? message.content.flatMap((part) => (part.type === "text" ? [part.text] : []))
+          : []
+    )
+    .join("\n");
+
+// "**Label:** value" lines of generateCandidateFitPrompt
+const field = (section: string, label: string): string | undefined => {
+  const value = section.match(new RegExp(`\\*\\*${label}:\\*\\*[ \\t]*(.+)`))?.[1]?.trim();
+  return value && value !== "Not specified" && value !== "Not available" ? value : undefined;
+};
+
+// "- item" lines under a "**Label:**" heading, up to the next blank line
+const listItems = (section: string, label: string): string[] => {
+  const block = section.split(`**${label}:**\n`)[1]?.split("\n\n")[0] ?? "";
+  return block
+    .split("\n")
+    .filter((line) => line.startsWith("- "))
+    .map((line) => line.slice(2).trim());
+};
+
+// "TypeScript (Expert) - 3 recommendations" -> "TypeScript"
+const itemName = (item: string) => item.replace(/\s*\(.*$/, "").replace(/\s+-\s+\d+ recommendations$/, "").trim();
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// ============================================================================
+// Outputs
+// ============================================================================
+
+// Keep 2-5 items, padding with generic ones
+const between2And5 = (items: string[], fallbacks: string[]) => [...items, ...fallbacks].slice(0, Math.max(2, Math.min(5, items.length)));
+
+function fitScore(matched: number, required: number): CandidateFitAnalysisResult["overallFitScore"] {
+  if (!required) return "Partial Match";
+  const ratio = matched / required;
+  return ratio >= 0.75 ? FIT_SCORES[0] : ratio >= 0.5 ? FIT_SCORES[1] : ratio >= 0.25 ? FIT_SCORES[2] : FIT_SCORES[3];
+}
+
+/**
+ * Fit analysis built from the job and candidate sections of the prompt
+ */
+function mockFitAnalysis(prompt: string): CandidateFitAnalysisResult {
+  const [job, candidate = ""] = prompt.split("## CANDIDATE PROFILE");
+
+  const position = field(job, "Position") ?? "this position";
+  const company = field(job, "Company") ?? "the company";
+  const jobLocation = field(job, "Location") ?? "On-site";
+  const commitment = field(job, "Commitment") ?? "an unspecified commitment";
+  const name = field(candidate, "Name") ?? "The candidate";
+  const headline = field(candidate, "Headline");
+  const location = field(candidate, "Location");
+  const timezone = field(candidate, "Timezone");
+  const verified = field(candidate, "Profile Verification") === "Verified";
+  const completeness = field(candidate, "Profile Completeness") ?? "Unknown";
+  const remoteExperience = field(candidate, "Remote Work Experience") ?? "0 out of 0 positions (0%)";
+
+  const requiredSkills = listItems(job, "Required Skills").map(itemName);
+  const candidateSkills = listItems(candidate, "Top Skills").map(itemName);
+  const known = new Set(candidateSkills.map((skill) => skill.toLowerCase()));
+  const matched = requiredSkills.filter((skill) => known.has(skill.toLowerCase()));
+  const missing = requiredSkills.filter((skill) => !known.has(skill.toLowerCase()));
+  const career = listItems(candidate, "Career History (with dates)");
+  const achievements = [...listItems(candidate, "Projects"), ...listItems(candidate, "Awards & Recognition")];
+  const links = listItems(candidate, "Online Presence");
+  const remotePercent = Number(remoteExperience.match(/\((\d+)%\)/)?.[1] ?? 0);
+
+  return {
+    jobSummary:
+      `${company} is hiring for ${position} (${commitment}, ${jobLocation}).\n\n` +
+      (requiredSkills.length
+        ? `The role asks for ${requiredSkills.slice(0, 5).join(", ")}.`
+        : "The posting does not list required skills.") +
+      `\n\nThis summary was generated by the mock AI provider.`,
+    overallFitScore: fitScore(matched.length, requiredSkills.length),
+    matchingSkillsAndStrengths: between2And5(
+      matched.map((skill) => `${name} lists ${skill}, which the role requires.`),
+      [
+        ...candidateSkills.slice(0, 2).map((skill) => `${skill} is one of ${name}'s top skills.`),
+        headline ? `Headline: ${headline}.` : `${name} has a public Torre profile.`,
+        `${name} has ${career.length} positions in their career history.`,
+      ]
+    ),
+    areasForDevelopment: between2And5(
+      missing.map((skill) => `${skill} is required but not among ${name}'s top skills.`),
+      [
+        `Deepen experience relevant to ${position}.`,
+        `Add more detail on past results to the profile (${completeness} complete).`,
+      ]
+    ),
+    recommendations: between2And5(
+      missing.slice(0, 2).map((skill) => `Build and showcase a project using ${skill}.`),
+      [
+        `Highlight the skills that match ${position} when applying to ${company}.`,
+        verified ? "Keep the verified profile up to date." : "Verify the Torre profile to build trust.",
+        "Ask colleagues for skill recommendations.",
+      ]
+    ),
+    careerTrajectory: {
+      summary: career.length
+        ? `${name}'s most recent position is ${career[0]}.`
+        : `${name} has not listed any positions yet.`,
+      growthIndicators: achievements.length
+        ? achievements.slice(0, 5).map((item) => `Achievement: ${item}.`)
+        : [`${career.length} positions listed on the profile.`],
+      alignmentWithRole: `${matched.length} of ${requiredSkills.length} required skills appear in ${name}'s profile.`,
+    },
+    locationAndWorkStyle: {
+      locationCompatibility: `The job is ${jobLocation}; ${name} is based in ${location ?? "an unspecified location"}.`,
+      remoteWorkAlignment: `Remote experience: ${remoteExperience}.`,
+      commitmentLevelMatch: `The role is ${commitment}.`,
+      potentialConcerns: [
+        ...(jobLocation === "Remote" && remotePercent < 50 ? ["Limited remote work experience for a remote role."] : []),
+        ...(timezone ? [] : ["The candidate's timezone is not specified."]),
+      ],
+    },
+    professionalCredibility: {
+      profileQuality: `${verified ? "Verified" : "Unverified"} profile, ${completeness} complete.`,
+      professionalPresence: links.length
+        ? links.slice(0, 5).map((link) => `Online presence: ${link}.`)
+        : [`${name} maintains a Torre profile.`],
+      credibilityIndicators: [verified ? "The profile is verified." : "The profile is not verified yet."],
+    },
+  };
+}
+
+// Smallest value that satisfies a JSON schema, for schemas the mock does not know
+function valueFor(schema: JSONSchema7): unknown {
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum?.length) return schema.enum[0];
+  if (schema.anyOf?.[0] && typeof schema.anyOf[0] === "object") return valueFor(schema.anyOf[0]);
+
+  switch (Array.isArray(schema.type) ? schema.type[0] : schema.type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [
+          key,
+          typeof property === "object" ? valueFor(property) : null,
+        ])
+      );
+    case "array": {
+      const items = typeof schema.items === "object" && !Array.isArray(schema.items) ? schema.items : {};
+      return Array.from({ length: schema.minItems ?? 0 }, () => valueFor(items));
+    }
+    case "string":
+      return "mock".padEnd(schema.minLength ?? 0, "-");
+    case "number":
+    case "integer":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
+
+function mockOutput(options: LanguageModelV2CallOptions, failure: MockFailureMode): MockOutput {
+  const prompt = promptText(options);
+  const format = options.responseFormat;
+
+  let text: string;
+  if (format?.type !== "json") {
+    const words = prompt.split(/\s+/).filter(Boolean).length;
+    text = `Mock response to a ${words}-word prompt: ${prompt.trim().split("\n")[0].slice(0, 120)}`;
+  } else if (format.schema?.properties && "overallFitScore" in format.schema.properties) {
+    const analysis = mockFitAnalysis(prompt);
+    text = JSON.stringify(
+      failure === "invalid-output"
+        ? { ...analysis, overallFitScore: "Excellent Match", recommendations: analysis.recommendations.slice(0, 1) }
+        : analysis
+    );
+  } else {
+    text = JSON.stringify(failure === "invalid-output" ? {} : valueFor(format.schema ?? {}));
+  }
+
+  return failure === "truncated"
+    ? { text: text.slice(0, Math.ceil(text.length / 2)), finishReason: "length" }
+    : { text, finishReason: "stop" };
+}
+
+// ============================================================================
+// Model
+// ============================================================================
+
+const mockFailure = (modelId: string) =>
+  new APICallError({
+    message: `Mock provider failure (AI_MOCK_FAILURE=error, model mock:${modelId})`,
+    url: `mock://${modelId}`,
+    requestBodyValues: {},
+    statusCode: 503,
+    // Fail once instead of going through the SDK's retries
+    isRetryable: false,
+  });
+
+const usageFor = (options: LanguageModelV2CallOptions, text: string): LanguageModelV2Usage => {
+  const inputTokens = estimateTokens(promptText(options));
+  const outputTokens = estimateTokens(text);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const CHUNK_SIZE = 48;
+
+function createMockLanguageModel(modelId: string, settings: AIMockSettings): LanguageModelV2 {
+  return {
+    specificationVersion: "v2",
+    provider: "mock",
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      if (settings.failure === "error") throw mockFailure(modelId);
+      const { text, finishReason } = mockOutput(options, settings.failure);
+      return {
+        content: [{ type: "text", text }],
+        finishReason,
+        usage: usageFor(options, text),
+        warnings: [],
+      };
+    },
+
+    async doStream(options) {
+      const { text, finishReason } = mockOutput(options, settings.failure);
+      const chunks = text.match(new RegExp(`[\\s\\S]{1,${CHUNK_SIZE}}`, "g")) ?? [];
+      // An "error" stream fails halfway so clients see partial output first
+      const failAt = settings.failure === "error" ? Math.floor(chunks.length / 2) : -1;
+
+      const stream = new ReadableStream<LanguageModelV2StreamPart>({
+        async start(controller) {
+          controller.enqueue({ type: "stream-start", warnings: [] });
+          controller.enqueue({ type: "text-start", id: "0" });
+          try {
+            for (const [index, delta] of chunks.entries()) {
+              if (index === failAt) {
+                controller.enqueue({ type: "error", error: mockFailure(modelId) });
+                controller.close();
+                return;
+              }
+              if (settings.latencyMs) await sleep(settings.latencyMs, options.abortSignal);
+              controller.enqueue({ type: "text-delta", id: "0", delta });
+            }
+          } catch (error) {
+            controller.error(error);
+            return;
+          }
+          controller.enqueue({ type: "text-end", id: "0" });
+          controller.enqueue({ type: "finish", finishReason, usage: usageFor(options, text) });
+          controller.close();
+        },
+      });
+
+      return { stream };
+    },
+  };
+}
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+/**
+ * Provider whose language models answer deterministically without network
+ * access; any model name works (e.g. "mock:demo")
+ */
+export function createMockProvider(settings: AIMockSettings): ProviderV2 {
+  return {
+    languageModel: (modelId) => createMockLanguageModel(modelId, settings),
+    textEmbeddingModel: (modelId) => {
+      throw new NoSuchModelError({ modelId, modelType: "textEmbeddingModel" });
+    },
+    imageModel: (modelId) => {
+      throw new NoSuchModelError({ modelId, modelType: "imageModel" });
+    },
+  };
+}
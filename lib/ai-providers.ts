@@ -0,0 +1,111 @@
+/**
+ * AI Providers
+ * Language model providers addressed by "provider:model" IDs, e.g.
+ * "google:gemini-2.5-flash", "anthropic:claude-sonnet-4-5", "local:llama3.1:8b" or "mock:demo"
+ */
+
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { createProviderRegistry, type LanguageModel } from "ai";
+import { createMockProvider, type AIMockSettings } from "./ai-mock";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const AI_PROVIDERS = ["google", "anthropic", "openai", "local", "mock"] as const;
+
+export type AIProviderName = (typeof AI_PROVIDERS)[number];
+
+/** What a generation is for; each task has its own default model */
+export type AITask = "analysis" | "summarization";
+
+export interface AIProviderSettings {
+  apiKey: string | undefined;
+  /** Only for the OpenAI-compatible providers ("openai" and "local") */
+  baseUrl?: string;
+}
+
+export type AIProvidersConfig = Record<Exclude<AIProviderName, "mock">, AIProviderSettings> & {
+  mock: AIMockSettings;
+};
+
+// ============================================================================
+// Model IDs
+// ============================================================================
+
+/** Provider assumed for IDs without a prefix, so GOOGLE_MODEL=gemini-2.5-flash keeps working */
+const DEFAULT_PROVIDER: AIProviderName = "google";
+
+const isProvider = (name: string): name is AIProviderName => (AI_PROVIDERS as readonly string[]).includes(name);
+
+/**
+ * Split a model ID at the first ":" (local model names may contain more)
+ * @returns null when the provider is unknown
+ */
+export function parseModelId(id: string): { provider: AIProviderName; model: string } | null {
+  const separator = id.indexOf(":");
+  if (separator === -1) return { provider: DEFAULT_PROVIDER, model: id };
+
+  const provider = id.slice(0, separator);
+  const model = id.slice(separator + 1);
+  return isProvider(provider) && model ? { provider, model } : null;
+}
+
+/**
+ * Canonical "provider:model" form of a model ID ("gemini-2.5-flash" -> "google:gemini-2.5-flash")
+ * Unknown providers are returned unchanged so validation can report them.
+ */
+export function normalizeModelId(id: string): string {
+  const parsed = parseModelId(id.trim());
+  return parsed ? `${parsed.provider}:${parsed.model}` : id.trim();
+}
+
+/**
+ * Whether the provider can serve requests; local servers usually need no key
+ */
+export function isProviderConfigured(provider: AIProviderName, providers: AIProvidersConfig): boolean {
+  if (provider === "local" || provider === "mock") return true;
+  return !!providers[provider].apiKey;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Build the provider registry. Keys of explicitly chosen models are checked by
+ * the config; any other missing key only fails when that provider is used
+ * (LoadAPIKeyError), so configuring one provider is enough.
+ */
+export function createAIProviderRegistry(providers: AIProvidersConfig) {
+  return createProviderRegistry({
+    google: createGoogleGenerativeAI({ apiKey: providers.google.apiKey }),
+    anthropic: createAnthropic({ apiKey: providers.anthropic.apiKey }),
+    openai: createOpenAICompatible({
+      name: "openai",
+      baseURL: providers.openai.baseUrl ?? "",
+      apiKey: providers.openai.apiKey,
+      // Report token usage on streamed responses too
+      includeUsage: true,
+    }),
+    local: createOpenAICompatible({
+      name: "local",
+      baseURL: providers.local.baseUrl ?? "",
+      apiKey: providers.local.apiKey,
+      includeUsage: true,
+    }),
+    mock: createMockProvider(providers.mock),
+  });
+}
+
+export type AIProviderRegistry = ReturnType<typeof createAIProviderRegistry>;
+
+/**
+ * Resolve a model ID against the registry
+ * @throws NoSuchProviderError for unknown providers
+ */
+export function resolveLanguageModel(registry: AIProviderRegistry, id: string): LanguageModel {
+  return registry.languageModel(normalizeModelId(id) as `${AIProviderName}:${string}`);
+}
@@ -1,52 +1,249 @@
-import { google } from "@ai-sdk/google";
-import { generateText, generateObject } from "ai";
+import {
+  NoObjectGeneratedError,
+  generateText,
+  generateObject,
+  streamObject,
+  type DeepPartial,
+  type FinishReason,
+  type LanguageModel,
+  type LanguageModelUsage,
+} from "ai";
 import { z } from "zod";
+import {
+  createAIProviderRegistry,
+  normalizeModelId,
+  resolveLanguageModel,
+  type AIProviderRegistry,
+  type AITask,
+} from "./ai-providers";
+import { getConfig } from "./config";
+import { errorFields, logger } from "./logger";
+import { recordAIUsage } from "./metrics";
+import {
+  CANDIDATE_FIT_SYSTEM_PROMPT,
+  candidateFitAnalysisSchema,
+  generateCandidateFitPrompt,
+  type CandidateFitAnalysisInput,
+  type CandidateFitAnalysisResult,
+} from "./prompts";
+
+let registry: AIProviderRegistry | null = null;
+
+/**
+ * Get a language model from the provider registry
+ * @param modelId - "provider:model" (a bare name means Gemini); defaults to the task's model
+ * @param task - Picks the default model from AI_ANALYSIS_MODEL / AI_SUMMARIZATION_MODEL
+ */
+export function getLanguageModel(modelId?: string, task: AITask = "analysis"): LanguageModel {
+  registry ??= createAIProviderRegistry(getConfig().ai.providers);
+  return resolveLanguageModel(registry, resolveModelId(modelId, task));
+}
 
 /**
- * Get the configured Google Gemini model
- * Uses gemini-2.5-flash-lite by default (fast and efficient model)
- * Can be configured via GOOGLE_MODEL env variable
+ * The model a generation will use, as "provider:model"
  */
-export function getGeminiModel(modelId?: string) {
-  const model = modelId || process.env.GOOGLE_MODEL || "gemini-2.5-flash-lite";
-  return google(model);
+export function resolveModelId(modelId: string | undefined, task: AITask): string {
+  return normalizeModelId(modelId || getConfig().ai.tasks[task]);
+}
+
+export interface GenerateOptions {
+  /** Model ID, "provider:model" (default: the task's model) */
+  model?: string;
+  signal?: AbortSignal;
+}
+
+export interface GenerateTextOptions extends GenerateOptions {
+  /** Which default model to use (default: summarization) */
+  task?: AITask;
+}
+
+export interface AITextResult {
+  text: string;
+  usage: LanguageModelUsage;
+  finishReason: FinishReason;
+  /** The model that answered, as "provider:model" */
+  model: string;
 }
 
 /**
  * Generate a text response from a prompt
  * @param prompt - The prompt to send to the model
  * @param systemPrompt - Optional system prompt for context
- * @returns The generated text response
+ * @returns The generated text with its token usage
  */
 export async function generateAIText(
   prompt: string,
-  systemPrompt?: string
-): Promise<string> {
-  const { text } = await generateText({
-    model: getGeminiModel(),
-    system: systemPrompt,
-    prompt,
-  });
-  return text;
+  systemPrompt?: string,
+  options: GenerateTextOptions = {}
+): Promise<AITextResult> {
+  const modelName = resolveModelId(options.model, options.task ?? "summarization");
+
+  try {
+    const { text, usage, finishReason } = await generateText({
+      model: getLanguageModel(modelName),
+      system: systemPrompt,
+      prompt,
+      abortSignal: options.signal,
+    });
+    recordAIUsage(modelName, "success", usage);
+    return { text, usage, finishReason, model: modelName };
+  } catch (error) {
+    logger.error("ai_generation_failed", { model: modelName, ...errorFields(error) });
+    recordAIUsage(modelName, "error");
+    throw error;
+  }
 }
 
+/**
+ * The model's output did not match the requested schema
+ */
+export class AIOutputValidationError extends Error {
+  constructor(
+    message: string,
+    /** Message per invalid field of the output, e.g. `{ "recommendations": "Too small: ..." }` */
+    readonly fields: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = "AIOutputValidationError";
+  }
+}
+
+// Re-validate the raw output to report which fields were wrong
+const outputValidationError = (text: string | undefined, schema: z.ZodType): AIOutputValidationError => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text ?? "");
+  } catch {
+    return new AIOutputValidationError("The model returned malformed or truncated JSON");
+  }
+  const result = schema.safeParse(value);
+  const fields = Object.fromEntries(
+    (result.error?.issues ?? []).map((issue) => [issue.path.map(String).join(".") || "(root)", issue.message])
+  );
+  return new AIOutputValidationError("The model returned an object that does not match the schema", fields);
+};
+
 /**
  * Generate a structured object from a prompt using a Zod schema
  * @param prompt - The prompt to send to the model
  * @param schema - Zod schema defining the expected output structure
  * @param systemPrompt - Optional system prompt for context
  * @returns The generated object matching the schema
+ * @throws AIOutputValidationError when the output does not match the schema
  */
 export async function generateAIObject<T>(
   prompt: string,
   schema: z.ZodType<T>,
-  systemPrompt?: string
+  systemPrompt?: string,
+  options: GenerateOptions = {}
 ): Promise<T> {
-  const { object } = await generateObject({
-    model: getGeminiModel(),
+  const modelName = resolveModelId(options.model, "analysis");
+
+  try {
+    const { object, usage } = await generateObject({
+      model: getLanguageModel(modelName),
+      system: systemPrompt,
+      prompt,
+      schema,
+      abortSignal: options.signal,
+    });
+    recordAIUsage(modelName, "success", usage);
+    return object;
+  } catch (error) {
+    throw objectGenerationError(error, schema, modelName);
+  }
+}
+
+export type ObjectStreamEvent<T> =
+  | { type: "partial"; object: DeepPartial<T> }
+  | { type: "done"; object: T };
+
+/**
+ * Stream a structured object: partial objects as the model writes them, then
+ * the complete object once it has been validated against the schema
+ * @throws AIOutputValidationError when the final output does not match the schema
+ */
+export async function* streamAIObject<T>(
+  prompt: string,
+  schema: z.ZodType<T>,
+  systemPrompt?: string,
+  options: GenerateOptions = {}
+): AsyncGenerator<ObjectStreamEvent<T>> {
+  const modelName = resolveModelId(options.model, "analysis");
+  // Errors during streaming go to onError instead of being thrown by the stream
+  let streamError: unknown;
+
+  const result = streamObject<z.ZodType<T>, "object", T>({
+    model: getLanguageModel(modelName),
     system: systemPrompt,
     prompt,
     schema,
+    abortSignal: options.signal,
+    onError: ({ error }) => {
+      streamError = error;
+    },
+  });
+
+  for await (const partial of result.partialObjectStream) {
+    yield { type: "partial", object: partial };
+  }
+
+  let object: T;
+  try {
+    if (streamError) throw streamError;
+    object = await result.object;
+    recordAIUsage(modelName, "success", await result.usage);
+  } catch (error) {
+    throw objectGenerationError(error, schema, modelName);
+  }
+  yield { type: "done", object };
+}
+
+// Record the failure and turn schema mismatches into AIOutputValidationError
+function objectGenerationError(error: unknown, schema: z.ZodType, modelName: string): unknown {
+  recordAIUsage(modelName, "error", NoObjectGeneratedError.isInstance(error) ? error.usage : undefined);
+  if (!NoObjectGeneratedError.isInstance(error)) return error;
+
+  const validationError = outputValidationError(error.text, schema);
+  logger.warn("ai_output_invalid", {
+    model: modelName,
+    finishReason: error.finishReason,
+    fields: validationError.fields,
   });
-  return object;
+  return validationError;
+}
+
+// ============================================================================
+// Tasks
+// ============================================================================
+
+/**
+ * Analyze how well a candidate fits a job, validated against candidateFitAnalysisSchema
+ * @throws AIOutputValidationError when the output does not match the schema
+ */
+export function analyzeCandidateFit(
+  input: CandidateFitAnalysisInput,
+  options: GenerateOptions = {}
+): Promise<CandidateFitAnalysisResult> {
+  return generateAIObject(
+    generateCandidateFitPrompt(input),
+    candidateFitAnalysisSchema,
+    CANDIDATE_FIT_SYSTEM_PROMPT,
+    options
+  );
+}
+
+/**
+ * Stream the candidate fit analysis section by section (see streamAIObject)
+ */
+export function streamCandidateFit(
+  input: CandidateFitAnalysisInput,
+  options: GenerateOptions = {}
+): AsyncGenerator<ObjectStreamEvent<CandidateFitAnalysisResult>> {
+  return streamAIObject(
+    generateCandidateFitPrompt(input),
+    candidateFitAnalysisSchema,
+    CANDIDATE_FIT_SYSTEM_PROMPT,
+    options
+  );
 }
@@ -0,0 +1,56 @@
+/**
+ * API Route Errors
+ * Server-side helper to answer API routes with the normalized error shape
+ */
+
+import { NextResponse } from "next/server";
+import { APICallError, LoadAPIKeyError, RetryError } from "ai";
+import { AIOutputValidationError } from "./ai";
+import { errorFields, getRequestContext, logger } from "./logger";
+import { TorreApiError } from "./torre-errors";
+
+/**
+ * Convert any thrown value into a JSON error response, logging its class and
+ * carrying the request id so clients can quote it. AI output that failed its
+ * schema answers 502 with the invalid `fields`, a failed provider call 502.
+ */
+export function errorResponse(error: unknown): NextResponse {
+  const requestId = getRequestContext()?.requestId;
+
+  if (error instanceof TorreApiError) {
+    const log = error.status >= 500 ? logger.error : logger.warn;
+    log("request_error", { ...errorFields(error), code: error.code, status: error.status, upstreamStatus: error.upstreamStatus });
+
+    const headers = new Headers();
+    if (error.retryAfter != null) {
+      headers.set("Retry-After", String(error.retryAfter));
+    }
+    return NextResponse.json({ ...error.toJSON(), requestId }, { status: error.status, headers });
+  }
+
+  if (error instanceof AIOutputValidationError) {
+    logger.error("request_error", { ...errorFields(error), status: 502, fields: error.fields });
+    return NextResponse.json({ error: error.message, fields: error.fields, requestId }, { status: 502 });
+  }
+
+  if (APICallError.isInstance(error) || RetryError.isInstance(error)) {
+    const cause = RetryError.isInstance(error) ? error.lastError : error;
+    const upstreamStatus = APICallError.isInstance(cause) ? cause.statusCode : undefined;
+    logger.error("request_error", { ...errorFields(error), status: 502, upstreamStatus });
+    return NextResponse.json({ error: `AI provider request failed: ${error.message}`, requestId }, { status: 502 });
+  }
+
+  if (LoadAPIKeyError.isInstance(error)) {
+    logger.error("request_error", { ...errorFields(error), status: 500 });
+    return NextResponse.json(
+      { error: `AI provider not configured: ${error.message}`, requestId },
+      { status: 500 }
+    );
+  }
+
+  logger.error("request_error", { ...errorFields(error), status: 500 });
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : "Unknown error", requestId },
+    { status: 500 }
+  );
+}
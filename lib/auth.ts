@@ -0,0 +1,18 @@
+/**
+ * Auth
+ * Bearer token checks for the operational endpoints (metrics, cache purges)
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { NextRequest } from "next/server";
+
+// Compare digests so the check takes the same time whatever the input
+const sameSecret = (given: string, expected: string): boolean =>
+  timingSafeEqual(createHash("sha256").update(given).digest(), createHash("sha256").update(expected).digest());
+
+/**
+ * Whether the request sends `token` as its bearer token, compared in constant time
+ */
+export function hasBearerToken(request: NextRequest, token: string): boolean {
+  return sameSecret(request.headers.get("Authorization") ?? "", `Bearer ${token}`);
+}
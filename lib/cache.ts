@@ -0,0 +1,268 @@
+/**
+ * Response Cache
+ * Server-side TTL cache with stale-while-revalidate and ETags for Torre lookups
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { NextRequest, NextResponse } from "next/server";
+import { hasBearerToken } from "./auth";
+import { getConfig } from "./config";
+import { getRequestContext } from "./logger";
+import { recordCacheLookup } from "./metrics";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  etag: string;
+  storedAt: number;
+  /** Fresh until this time */
+  expiresAt: number;
+  /** Served stale (while refreshing in the background) until this time */
+  staleUntil: number;
+}
+
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<boolean>;
+}
+
+/** Cached resource kinds, each with its own TTLs */
+export type CacheResource = "job" | "genome";
+
+export interface CachePolicy {
+  ttlMs: number;
+  staleMs: number;
+}
+
+export type CacheStatus = "hit" | "stale" | "miss";
+
+export interface CacheResult<T> {
+  value: T;
+  etag: string;
+  status: CacheStatus;
+  policy: CachePolicy;
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+/**
+ * In-process store, evicting the oldest entry past `maxEntries`
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = 500) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    return this.entries.get(key) as CacheEntry<T> | undefined;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+}
+
+/**
+ * Store writing one JSON file per entry, surviving server restarts
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private directory: string) {}
+
+  private filePath(key: string): string {
+    return path.join(this.directory, `${createHash("sha1").update(key).digest("hex")}.json`);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      return JSON.parse(await readFile(this.filePath(key), "utf8")) as CacheEntry<T>;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.filePath(key), JSON.stringify(entry), "utf8");
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await unlink(this.filePath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * TTLs per resource, configurable via TORRE_CACHE_<RESOURCE>_TTL_MS and
+ * TORRE_CACHE_<RESOURCE>_STALE_MS
+ */
+export function getCachePolicy(resource: CacheResource): CachePolicy {
+  return getConfig().cache.policies[resource];
+}
+
+let store: CacheStore | null = null;
+
+/**
+ * Shared store: in-memory by default, file-backed when TORRE_CACHE_STORE=file
+ * (directory from TORRE_CACHE_DIR, default .cache/torre)
+ */
+export function getCacheStore(): CacheStore {
+  if (!store) {
+    const { store: kind, dir } = getConfig().cache;
+    store = kind === "file" ? new FileCacheStore(dir) : new MemoryCacheStore();
+  }
+  return store;
+}
+
+/**
+ * Replace the shared store (e.g. with a Redis-backed implementation)
+ */
+export function setCacheStore(next: CacheStore): void {
+  store = next;
+}
+
+// ============================================================================
+// Cache Access
+// ============================================================================
+
+const cacheKey = (resource: CacheResource, id: string) => `${resource}:${id}`;
+
+/**
+ * Strong ETag derived from the serialized value
+ */
+export function computeETag(value: unknown): string {
+  return `"${createHash("sha1").update(JSON.stringify(value)).digest("base64url")}"`;
+}
+
+// Background refreshes in progress, so a stale entry is only reloaded once
+const refreshing = new Set<string>();
+
+async function storeValue<T>(key: string, value: T, policy: CachePolicy): Promise<CacheEntry<T>> {
+  const now = Date.now();
+  const entry: CacheEntry<T> = {
+    value,
+    etag: computeETag(value),
+    storedAt: now,
+    expiresAt: now + policy.ttlMs,
+    staleUntil: now + policy.ttlMs + policy.staleMs,
+  };
+  await getCacheStore().set(key, entry);
+  return entry;
+}
+
+/**
+ * Read through the cache: fresh entries are returned as-is, stale ones are
+ * returned while a background refresh runs, and misses call `load`.
+ */
+export async function cached<T>(
+  resource: CacheResource,
+  id: string,
+  load: () => Promise<T>
+): Promise<CacheResult<T>> {
+  const key = cacheKey(resource, id);
+  const policy = getCachePolicy(resource);
+  const entry = await getCacheStore().get<T>(key);
+  const now = Date.now();
+
+  if (entry && now < entry.expiresAt) {
+    recordCacheLookup(resource, "hit");
+    return { value: entry.value, etag: entry.etag, status: "hit", policy };
+  }
+
+  if (entry && now < entry.staleUntil) {
+    recordCacheLookup(resource, "stale");
+    if (!refreshing.has(key)) {
+      refreshing.add(key);
+      load()
+        .then((value) => storeValue(key, value, policy))
+        .catch(() => {
+          // Keep serving the stale entry; the next request retries
+        })
+        .finally(() => refreshing.delete(key));
+    }
+    return { value: entry.value, etag: entry.etag, status: "stale", policy };
+  }
+
+  recordCacheLookup(resource, "miss");
+  const fresh = await storeValue(key, await load(), policy);
+  return { value: fresh.value, etag: fresh.etag, status: "miss", policy };
+}
+
+/**
+ * Remove a cached entry
+ * @returns Whether an entry was removed
+ */
+export async function purgeCached(resource: CacheResource, id: string): Promise<boolean> {
+  return getCacheStore().delete(cacheKey(resource, id));
+}
+
+// ============================================================================
+// HTTP Helpers
+// ============================================================================
+
+const matchesETag = (header: string | null, etag: string): boolean =>
+  !!header && header.split(",").some((tag) => {
+    const candidate = tag.trim().replace(/^W\//, "");
+    return candidate === "*" || candidate === etag;
+  });
+
+/**
+ * Answer with the cached value, or 304 when the client already holds it
+ */
+export function cachedJsonResponse<T>(request: NextRequest, result: CacheResult<T>): NextResponse {
+  const headers = new Headers({
+    ETag: result.etag,
+    "Cache-Control": `private, max-age=${Math.floor(result.policy.ttlMs / 1000)}, stale-while-revalidate=${Math.floor(result.policy.staleMs / 1000)}`,
+    "X-Cache": result.status.toUpperCase(),
+  });
+
+  if (matchesETag(request.headers.get("If-None-Match"), result.etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  return NextResponse.json(result.value, { headers });
+}
+
+/**
+ * Reject cache purges unless the caller sends CACHE_PURGE_TOKEN as a bearer
+ * token; purging is disabled (403) while no token is configured
+ * @returns The error response, or null when the purge may proceed
+ */
+export function purgeDenied(request: NextRequest): NextResponse | null {
+  const token = getConfig().cache.purgeToken;
+  const requestId = getRequestContext()?.requestId;
+
+  if (!token) {
+    return NextResponse.json(
+      { error: "Cache purging is disabled. Set CACHE_PURGE_TOKEN to enable it.", requestId },
+      { status: 403 }
+    );
+  }
+  if (!hasBearerToken(request, token)) {
+    return NextResponse.json({ error: "Not authorized to purge the cache", requestId }, { status: 401 });
+  }
+  return null;
+}
@@ -0,0 +1,72 @@
+/**
+ * Request Coalescing
+ * Shares one in-flight upstream call between concurrent identical requests
+ */
+
+import { createHash } from "node:crypto";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CoalescingStats {
+  /** Calls made through `coalesce` */
+  requests: number;
+  /** Calls that actually ran */
+  executed: number;
+  /** Calls that joined one already in flight */
+  saved: number;
+  /** Calls currently running */
+  inFlight: number;
+}
+
+// ============================================================================
+// Coalescing
+// ============================================================================
+
+const pending = new Map<string, Promise<unknown>>();
+const stats = new Map<string, Omit<CoalescingStats, "inFlight">>();
+
+/**
+ * Key identifying a request: method, URL and a hash of the body
+ */
+export function requestKey(url: string, init: RequestInit = {}): string {
+  const method = (init.method || "GET").toUpperCase();
+  const body = typeof init.body === "string" ? createHash("sha1").update(init.body).digest("hex") : "";
+  return `${method} ${url} ${body}`;
+}
+
+/**
+ * Run `run` unless an identical call (same group and key) is already in
+ * flight, in which case its result (or error) is shared
+ * @param group - Bucket for the stats, e.g. the upstream name
+ */
+export function coalesce<T>(group: string, key: string, run: () => Promise<T>): Promise<T> {
+  const counters = stats.get(group) ?? { requests: 0, executed: 0, saved: 0 };
+  stats.set(group, counters);
+  counters.requests += 1;
+
+  const fullKey = `${group}|${key}`;
+  const existing = pending.get(fullKey);
+  if (existing) {
+    counters.saved += 1;
+    return existing as Promise<T>;
+  }
+
+  counters.executed += 1;
+  const promise = run().finally(() => pending.delete(fullKey));
+  pending.set(fullKey, promise);
+  return promise;
+}
+
+/**
+ * Counters per group since the server started
+ */
+export function getCoalescingStats(): Record<string, CoalescingStats> {
+  const inFlight = (group: string) =>
+    [...pending.keys()].filter((key) => key.startsWith(`${group}|`)).length;
+
+  return Object.fromEntries(
+    [...stats].map(([group, counters]) => [group, { ...counters, inFlight: inFlight(group) }])
+  );
+}
@@ -0,0 +1,334 @@
+/**
+ * Configuration
+ * Typed server settings read from the environment once and validated with zod,
+ * so a bad value stops the server at startup instead of failing a request later
+ */
+
+import path from "node:path";
+import { z } from "zod";
+import {
+  AI_PROVIDERS,
+  normalizeModelId,
+  parseModelId,
+  type AIProviderName,
+  type AIProvidersConfig,
+  type AITask,
+} from "./ai-providers";
+import type { CachePolicy, CacheResource } from "./cache";
+import type { LogLevel } from "./logger";
+import type { RateLimitBudget, RateLimitRoute } from "./rate-limit";
+import { TORRE_BASE_URLS, torreEndpoints, type TorreEndpoints } from "./torre-api";
+import type { MockMode } from "./torre-mock";
+import type { SchemaMode } from "./torre-schemas";
+import type { UpstreamConfig } from "./upstream";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AppConfig {
+  torre: {
+    endpoints: TorreEndpoints;
+    schemaMode: SchemaMode;
+  };
+  upstream: UpstreamConfig;
+  mock: {
+    mode: MockMode;
+    fixturesDir: string;
+    /** Simulated latency range; min === max for a fixed delay */
+    latencyMs: { min: number; max: number };
+    errorRate: number;
+  };
+  cache: {
+    store: "memory" | "file";
+    dir: string;
+    policies: Record<CacheResource, CachePolicy>;
+    purgeToken: string | undefined;
+  };
+  rateLimit: {
+    enabled: boolean;
+    budgets: Record<RateLimitRoute, RateLimitBudget>;
+    /** Keys that get their own bucket instead of sharing the IP's */
+    apiKeys: string[];
+    /** Proxies in front of the app whose X-Forwarded-For entries are trusted (0 uses the right-most entry) */
+    trustedProxies: number;
+  };
+  ai: {
+    /** Default model, as "provider:model" */
+    model: string;
+    /** Default model per task (AI_MODEL unless overridden) */
+    tasks: Record<AITask, string>;
+    /** Models callers may request; always includes the defaults */
+    allowedModels: string[];
+    /** Whether POST /api/ai relays arbitrary prompts */
+    relayEnabled: boolean;
+    providers: AIProvidersConfig;
+  };
+  health: {
+    probeTimeoutMs: number;
+  };
+  logging: {
+    level: LogLevel;
+  };
+  metrics: {
+    token: string | undefined;
+  };
+}
+
+export class ConfigError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid configuration:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+// ============================================================================
+// Environment Schema
+// ============================================================================
+
+export const DEFAULT_AI_MODEL = "gemini-2.5-flash-lite";
+
+const baseUrl = (fallback: string) =>
+  z
+    .url({ protocol: /^https?$/, error: "Expected an http(s) URL" })
+    .default(fallback)
+    .transform((url) => url.replace(/\/+$/, ""));
+
+const milliseconds = (fallback: number) => z.coerce.number().int().nonnegative().default(fallback);
+
+const count = (fallback: number, min = 0) => z.coerce.number().int().min(min).default(fallback);
+
+const rateBudget = (fallback: number) => z.coerce.number().positive().default(fallback);
+
+const token = z.string().optional();
+
+const list = z
+  .string()
+  .default("")
+  .transform((value) => value.split(",").map((item) => item.trim()).filter(Boolean));
+
+// "provider:model", or a bare Gemini model name
+const modelId = z
+  .string()
+  .trim()
+  .min(1)
+  .transform(normalizeModelId)
+  .refine((id) => parseModelId(id) !== null, {
+    error: `Expected "provider:model" with a provider among ${AI_PROVIDERS.join(", ")}`,
+  });
+
+// AI_MODEL falls back to GOOGLE_MODEL, each task model to AI_MODEL
+const defaultModels = (env: {
+  AI_MODEL?: string;
+  GOOGLE_MODEL: string;
+  AI_ANALYSIS_MODEL?: string;
+  AI_SUMMARIZATION_MODEL?: string;
+}) => {
+  const model = env.AI_MODEL ?? normalizeModelId(env.GOOGLE_MODEL);
+  return {
+    model,
+    tasks: {
+      analysis: env.AI_ANALYSIS_MODEL ?? model,
+      summarization: env.AI_SUMMARIZATION_MODEL ?? model,
+    } satisfies Record<AITask, string>,
+  };
+};
+
+// Key each hosted provider needs; local servers and the mock need none
+const PROVIDER_KEYS: Partial<Record<AIProviderName, "GOOGLE_GENERATIVE_AI_API_KEY" | "ANTHROPIC_API_KEY" | "OPENAI_API_KEY">> = {
+  google: "GOOGLE_GENERATIVE_AI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  openai: "OPENAI_API_KEY",
+};
+
+const envSchema = z.object({
+  // Torre upstreams
+  TORRE_SEARCH_BASE_URL: baseUrl(TORRE_BASE_URLS.search),
+  TORRE_API_BASE_URL: baseUrl(TORRE_BASE_URLS.api),
+  TORRE_SCHEMA_MODE: z.enum(["lenient", "strict"]).default("lenient"),
+  TORRE_TIMEOUT_MS: milliseconds(10_000),
+  TORRE_RETRIES: count(2),
+  TORRE_RETRY_BASE_DELAY_MS: milliseconds(250),
+  TORRE_RETRY_MAX_DELAY_MS: milliseconds(5_000),
+  TORRE_BREAKER_THRESHOLD: count(5, 1),
+  TORRE_BREAKER_COOLDOWN_MS: milliseconds(30_000),
+  TORRE_BATCH_CONCURRENCY: count(4, 1),
+  TORRE_BATCH_MAX_IDS: count(50, 1),
+
+  // Mock mode
+  TORRE_MOCK: z
+    .string()
+    .toLowerCase()
+    .pipe(z.enum(["off", "false", "0", "replay", "true", "1", "record"]))
+    .default("off")
+    .transform((value): MockMode => (value === "record" ? "record" : ["replay", "true", "1"].includes(value) ? "replay" : "off")),
+  TORRE_FIXTURES_DIR: z.string().default(path.join(process.cwd(), "fixtures", "torre")),
+  TORRE_MOCK_LATENCY_MS: z
+    .string()
+    .regex(/^\d+(-\d+)?$/, 'Expected "250" or a range like "100-800"')
+    .default("0")
+    .transform((value) => {
+      const [min, max = min] = value.split("-").map(Number);
+      return { min, max: Math.max(min, max) };
+    }),
+  TORRE_MOCK_ERROR_RATE: z.coerce.number().min(0).max(1).default(0),
+
+  // Response cache
+  TORRE_CACHE_STORE: z.enum(["memory", "file"]).default("memory"),
+  TORRE_CACHE_DIR: z.string().default(path.join(process.cwd(), ".cache", "torre")),
+  TORRE_CACHE_JOB_TTL_MS: milliseconds(5 * 60_000),
+  TORRE_CACHE_JOB_STALE_MS: milliseconds(60 * 60_000),
+  TORRE_CACHE_GENOME_TTL_MS: milliseconds(10 * 60_000),
+  TORRE_CACHE_GENOME_STALE_MS: milliseconds(60 * 60_000),
+  CACHE_PURGE_TOKEN: token,
+
+  // Rate limiting
+  RATE_LIMIT_ENABLED: z.stringbool().default(true),
+  RATE_LIMIT_SEARCH_PER_MINUTE: rateBudget(60),
+  RATE_LIMIT_SEARCH_BURST: rateBudget(20),
+  RATE_LIMIT_JOBS_PER_MINUTE: rateBudget(120),
+  RATE_LIMIT_JOBS_BURST: rateBudget(40),
+  RATE_LIMIT_GENOME_PER_MINUTE: rateBudget(60),
+  RATE_LIMIT_GENOME_BURST: rateBudget(20),
+  RATE_LIMIT_AI_PER_MINUTE: rateBudget(6),
+  RATE_LIMIT_AI_BURST: rateBudget(3),
+  RATE_LIMIT_API_KEYS: list,
+  RATE_LIMIT_TRUSTED_PROXIES: count(0),
+
+  // AI
+  AI_MODEL: modelId.optional(),
+  AI_ANALYSIS_MODEL: modelId.optional(),
+  AI_SUMMARIZATION_MODEL: modelId.optional(),
+  AI_ALLOWED_MODELS: list.pipe(z.array(modelId)),
+  AI_RELAY_ENABLED: z.stringbool().default(false),
+  GOOGLE_GENERATIVE_AI_API_KEY: token,
+  GOOGLE_MODEL: z.string().trim().min(1).default(DEFAULT_AI_MODEL),
+  ANTHROPIC_API_KEY: token,
+  OPENAI_API_KEY: token,
+  OPENAI_BASE_URL: baseUrl("https://api.openai.com/v1"),
+  LOCAL_AI_BASE_URL: baseUrl("http://localhost:11434/v1"),
+  LOCAL_AI_API_KEY: token,
+  AI_MOCK_FAILURE: z.enum(["none", "error", "invalid-output", "truncated"]).default("none"),
+  AI_MOCK_LATENCY_MS: milliseconds(0),
+
+  // Operations
+  HEALTH_PROBE_TIMEOUT_MS: count(3_000, 1),
+  LOG_LEVEL: z.string().toLowerCase().pipe(z.enum(["debug", "info", "warn", "error"])).default("info"),
+  METRICS_TOKEN: token,
+}).superRefine((env, ctx) => {
+  const { model, tasks } = defaultModels(env);
+  if (env.AI_ALLOWED_MODELS.length) {
+    for (const id of new Set([model, ...Object.values(tasks)])) {
+      if (!env.AI_ALLOWED_MODELS.includes(id)) {
+        ctx.addIssue({ code: "custom", path: ["AI_ALLOWED_MODELS"], message: `Must include the default model ${id}` });
+      }
+    }
+  }
+
+  // Every explicitly chosen model needs its provider's key. The implicit Gemini
+  // default does not, so the app still starts without AI (see /api/health).
+  const selected = [env.AI_MODEL, env.AI_ANALYSIS_MODEL, env.AI_SUMMARIZATION_MODEL, ...env.AI_ALLOWED_MODELS];
+  for (const id of new Set(selected)) {
+    const provider = id && parseModelId(id)?.provider;
+    const key = provider && PROVIDER_KEYS[provider];
+    if (key && !env[key]) {
+      ctx.addIssue({ code: "custom", path: [key], message: `Required by model ${id}` });
+    }
+  }
+});
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Parse and validate settings from an environment
+ * @throws ConfigError listing every invalid variable
+ */
+export function loadConfig(source: NodeJS.ProcessEnv = process.env): AppConfig {
+  // Treat empty variables (e.g. `TORRE_TIMEOUT_MS=` in .env.local) as unset
+  const env = Object.fromEntries(Object.entries(source).filter(([, value]) => value !== ""));
+  const result = envSchema.safeParse(env);
+  if (!result.success) {
+    throw new ConfigError(result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`));
+  }
+  const e = result.data;
+  const ai = defaultModels(e);
+
+  return {
+    torre: {
+      endpoints: torreEndpoints(e.TORRE_SEARCH_BASE_URL, e.TORRE_API_BASE_URL),
+      schemaMode: e.TORRE_SCHEMA_MODE,
+    },
+    upstream: {
+      timeoutMs: e.TORRE_TIMEOUT_MS,
+      retries: e.TORRE_RETRIES,
+      retryBaseDelayMs: e.TORRE_RETRY_BASE_DELAY_MS,
+      retryMaxDelayMs: e.TORRE_RETRY_MAX_DELAY_MS,
+      breakerThreshold: e.TORRE_BREAKER_THRESHOLD,
+      breakerCooldownMs: e.TORRE_BREAKER_COOLDOWN_MS,
+      batchConcurrency: e.TORRE_BATCH_CONCURRENCY,
+      batchMaxIds: e.TORRE_BATCH_MAX_IDS,
+    },
+    mock: {
+      mode: e.TORRE_MOCK,
+      fixturesDir: e.TORRE_FIXTURES_DIR,
+      latencyMs: e.TORRE_MOCK_LATENCY_MS,
+      errorRate: e.TORRE_MOCK_ERROR_RATE,
+    },
+    cache: {
+      store: e.TORRE_CACHE_STORE,
+      dir: e.TORRE_CACHE_DIR,
+      policies: {
+        job: { ttlMs: e.TORRE_CACHE_JOB_TTL_MS, staleMs: e.TORRE_CACHE_JOB_STALE_MS },
+        genome: { ttlMs: e.TORRE_CACHE_GENOME_TTL_MS, staleMs: e.TORRE_CACHE_GENOME_STALE_MS },
+      },
+      purgeToken: e.CACHE_PURGE_TOKEN,
+    },
+    rateLimit: {
+      enabled: e.RATE_LIMIT_ENABLED,
+      budgets: {
+        search: { perMinute: e.RATE_LIMIT_SEARCH_PER_MINUTE, burst: e.RATE_LIMIT_SEARCH_BURST },
+        jobs: { perMinute: e.RATE_LIMIT_JOBS_PER_MINUTE, burst: e.RATE_LIMIT_JOBS_BURST },
+        genome: { perMinute: e.RATE_LIMIT_GENOME_PER_MINUTE, burst: e.RATE_LIMIT_GENOME_BURST },
+        ai: { perMinute: e.RATE_LIMIT_AI_PER_MINUTE, burst: e.RATE_LIMIT_AI_BURST },
+      },
+      apiKeys: e.RATE_LIMIT_API_KEYS,
+      trustedProxies: e.RATE_LIMIT_TRUSTED_PROXIES,
+    },
+    ai: {
+      ...ai,
+      allowedModels: e.AI_ALLOWED_MODELS.length
+        ? e.AI_ALLOWED_MODELS
+        : [...new Set([ai.model, ...Object.values(ai.tasks)])],
+      relayEnabled: e.AI_RELAY_ENABLED,
+      providers: {
+        google: { apiKey: e.GOOGLE_GENERATIVE_AI_API_KEY },
+        anthropic: { apiKey: e.ANTHROPIC_API_KEY },
+        openai: { apiKey: e.OPENAI_API_KEY, baseUrl: e.OPENAI_BASE_URL },
+        local: { apiKey: e.LOCAL_AI_API_KEY, baseUrl: e.LOCAL_AI_BASE_URL },
+        mock: { failure: e.AI_MOCK_FAILURE, latencyMs: e.AI_MOCK_LATENCY_MS },
+      },
+    },
+    health: {
+      probeTimeoutMs: e.HEALTH_PROBE_TIMEOUT_MS,
+    },
+    logging: {
+      level: e.LOG_LEVEL,
+    },
+    metrics: {
+      token: e.METRICS_TOKEN,
+    },
+  };
+}
+
+let config: AppConfig | null = null;
+
+/**
+ * Settings for this server instance, validated on first use (see instrumentation.ts)
+ * @throws ConfigError when the environment is invalid
+ */
+export function getConfig(): AppConfig {
+  config ??= loadConfig();
+  return config;
+}
@@ -0,0 +1,137 @@
+/**
+ * Health Checks
+ * Reports app version, AI configuration and the reachability of each Torre upstream
+ */
+
+import packageJson from "../package.json";
+import { AI_PROVIDERS, isProviderConfigured, parseModelId, type AIProviderName, type AITask } from "./ai-providers";
+import { getConfig } from "./config";
+import { getMockMode, type MockMode } from "./torre-mock";
+import { getCircuitSnapshots, type CircuitState, type UpstreamName } from "./upstream";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ProbeStatus = "up" | "degraded" | "down" | "skipped";
+
+export interface UpstreamHealth {
+  status: ProbeStatus;
+  /** Round-trip time of the probe */
+  latencyMs: number | null;
+  /** HTTP status the probe received */
+  httpStatus: number | null;
+  /** Why the probe failed or was skipped */
+  detail: string | null;
+  circuit: CircuitState;
+}
+
+export interface HealthReport {
+  status: "ok" | "degraded";
+  version: string;
+  timestamp: string;
+  mockMode: MockMode;
+  ai: {
+    /** Whether the providers of the default models have their keys (the keys themselves are never reported) */
+    apiKeyConfigured: boolean;
+    model: string;
+    tasks: Record<AITask, string>;
+    /** Whether each provider could serve a request */
+    providers: Record<AIProviderName, boolean>;
+  };
+  upstreams: Record<UpstreamName, UpstreamHealth>;
+}
+
+// ============================================================================
+// Probes
+// ============================================================================
+
+/**
+ * Send a HEAD request to an upstream. Any HTTP answer below 500 (including
+ * 404/405) means Torre is reachable; the call bypasses retries and the
+ * circuit breaker so probing never affects real traffic.
+ */
+async function probeUpstream(upstream: UpstreamName): Promise<Omit<UpstreamHealth, "circuit">> {
+  const { health, torre } = getConfig();
+  const timeoutMs = health.probeTimeoutMs;
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetch(torre.endpoints[upstream], {
+      method: "HEAD",
+      cache: "no-store",
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    return {
+      status: response.status >= 500 ? "degraded" : "up",
+      latencyMs: Date.now() - startedAt,
+      httpStatus: response.status,
+      detail: response.status >= 500 ? `Torre answered ${response.status}` : null,
+    };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === "TimeoutError";
+    return {
+      status: "down",
+      latencyMs: timedOut ? null : Date.now() - startedAt,
+      httpStatus: null,
+      detail: timedOut
+        ? `No response within ${timeoutMs}ms`
+        : error instanceof Error
+          // undici reports DNS and socket failures as the cause of "fetch failed"
+          ? (error.cause instanceof Error ? error.cause.message : error.message)
+          : "Network error",
+    };
+  }
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+/**
+ * Build the health report
+ * @param probe - Whether to probe the upstreams; probes are always skipped in mock mode
+ */
+export async function getHealthReport({ probe = true }: { probe?: boolean } = {}): Promise<HealthReport> {
+  const mockMode = getMockMode();
+  const circuits = getCircuitSnapshots();
+  const skipReason = mockMode !== "off" ? `Mock mode (${mockMode})` : !probe ? "Probe disabled" : null;
+
+  const { ai } = getConfig();
+  const names = Object.keys(getCircuitSnapshots()) as UpstreamName[];
+  const results = await Promise.all(
+    names.map(async (name): Promise<[UpstreamName, UpstreamHealth]> => {
+      const result = skipReason
+        ? { status: "skipped" as const, latencyMs: null, httpStatus: null, detail: skipReason }
+        : await probeUpstream(name);
+      return [name, { ...result, circuit: circuits[name].state }];
+    })
+  );
+  const upstreams = Object.fromEntries(results) as Record<UpstreamName, UpstreamHealth>;
+
+  const providers = Object.fromEntries(
+    AI_PROVIDERS.map((provider) => [provider, isProviderConfigured(provider, ai.providers)])
+  ) as Record<AIProviderName, boolean>;
+  const apiKeyConfigured = [ai.model, ...Object.values(ai.tasks)].every((id) => {
+    const parsed = parseModelId(id);
+    return parsed !== null && providers[parsed.provider];
+  });
+
+  const healthy = apiKeyConfigured && results.every(
+    ([, upstream]) => (upstream.status === "up" || upstream.status === "skipped") && upstream.circuit !== "open"
+  );
+
+  return {
+    status: healthy ? "ok" : "degraded",
+    version: packageJson.version,
+    timestamp: new Date().toISOString(),
+    mockMode,
+    ai: {
+      apiKeyConfigured,
+      model: ai.model,
+      tasks: ai.tasks,
+      providers,
+    },
+    upstreams,
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Logger
+ * Structured JSON logs correlated by request id across route handlers and
+ * upstream calls
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import { getConfig } from "./config";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export interface RequestContext {
+  requestId: string;
+  /** Route pattern, e.g. "/api/jobs/[id]" */
+  route: string;
+}
+
+// ============================================================================
+// Request Context
+// ============================================================================
+
+export const REQUEST_ID_HEADER = "x-request-id";
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Context of the request being handled, if any
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return requestContext.getStore();
+}
+
+/**
+ * Run `fn` with a request context, so logs written inside it carry the request id
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return requestContext.run(context, fn);
+}
+
+/**
+ * Reuse the caller's x-request-id when it looks safe to log, otherwise generate one
+ */
+export function resolveRequestId(header: string | null): string {
+  return header && /^[A-Za-z0-9._:-]{1,128}$/.test(header) ? header : randomUUID();
+}
+
+// ============================================================================
+// Logging
+// ============================================================================
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const minimumLevel = (): LogLevel => getConfig().logging.level;
+
+/**
+ * Log fields describing an error: its class and message
+ */
+export function errorFields(error: unknown): LogFields {
+  return error instanceof Error
+    ? { errorClass: error.name, error: error.message }
+    : { errorClass: typeof error, error: String(error) };
+}
+
+function write(level: LogLevel, event: string, fields: LogFields = {}): void {
+  if (LEVELS[level] < LEVELS[minimumLevel()]) return;
+
+  const context = getRequestContext();
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    event,
+    ...(context && { requestId: context.requestId, route: context.route }),
+    ...fields,
+  });
+
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
+}
+
+/**
+ * One JSON line per event
+ * @example
+ * logger.warn("upstream_failed", { upstream: "genome", status: 503 });
+ */
+export const logger = {
+  debug: (event: string, fields?: LogFields) => write("debug", event, fields),
+  info: (event: string, fields?: LogFields) => write("info", event, fields),
+  warn: (event: string, fields?: LogFields) => write("warn", event, fields),
+  error: (event: string, fields?: LogFields) => write("error", event, fields),
+};
@@ -0,0 +1,207 @@
+/**
+ * Metrics
+ * In-process counters and histograms exposed in the Prometheus text format
+ */
+
+import { NextRequest } from "next/server";
+import type { LanguageModelUsage } from "ai";
+import { parseModelId } from "./ai-providers";
+import { hasBearerToken } from "./auth";
+import { getConfig } from "./config";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type Labels = Record<string, string>;
+
+interface HistogramSeries {
+  labels: Labels;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+// ============================================================================
+// Metric Types
+// ============================================================================
+
+const seriesKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort());
+
+const escapeLabel = (value: string) => value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels);
+  return entries.length
+    ? `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(",")}}`
+    : "";
+};
+
+class Counter {
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels, amount = 1): void {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key) ?? { labels, value: 0 };
+    entry.value += amount;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
+  }
+}
+
+class Histogram {
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(readonly name: string, readonly help: string, readonly bounds: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key) ?? { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) entry.buckets[index] += 1;
+    });
+    entry.sum += value;
+    entry.count += 1;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      this.bounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const LATENCY_BUCKETS = [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const httpRequests = new Counter("http_requests_total", "API route requests by route, method and status");
+const httpDuration = new Histogram(
+  "http_request_duration_seconds",
+  "API route latency by route and method",
+  LATENCY_BUCKETS
+);
+const httpErrors = new Counter("http_errors_total", "API route responses with status >= 400 by route and status");
+
+const upstreamRequests = new Counter("torre_upstream_requests_total", "Torre upstream attempts by upstream and status");
+const upstreamDuration = new Histogram(
+  "torre_upstream_request_duration_seconds",
+  "Torre upstream attempt latency by upstream",
+  LATENCY_BUCKETS
+);
+const upstreamErrors = new Counter(
+  "torre_upstream_errors_total",
+  "Failed Torre upstream attempts by upstream and status (timeout and network_error included)"
+);
+
+const cacheLookups = new Counter("torre_cache_lookups_total", "Response cache lookups by resource and result");
+
+const aiRequests = new Counter("ai_requests_total", "AI generations by provider, model and outcome");
+const aiTokens = new Counter("ai_tokens_total", "AI token usage by provider, model and token type");
+
+const registry = [
+  httpRequests,
+  httpDuration,
+  httpErrors,
+  upstreamRequests,
+  upstreamDuration,
+  upstreamErrors,
+  cacheLookups,
+  aiRequests,
+  aiTokens,
+];
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Record one Torre upstream attempt
+ * @param status - HTTP status, or "timeout" / "network_error" when no response arrived
+ */
+export function recordUpstreamAttempt(upstream: string, status: number | string, durationMs: number): void {
+  const statusLabel = String(status);
+  upstreamRequests.inc({ upstream, status: statusLabel });
+  upstreamDuration.observe({ upstream }, durationMs / 1000);
+  if (typeof status !== "number" || status >= 400) {
+    upstreamErrors.inc({ upstream, status: statusLabel });
+  }
+}
+
+/**
+ * Record a response cache lookup
+ */
+export function recordCacheLookup(resource: string, result: "hit" | "stale" | "miss"): void {
+  cacheLookups.inc({ resource, result });
+}
+
+/**
+ * Record an AI generation and the tokens it used
+ * @param modelId - "provider:model", reported as separate labels
+ */
+export function recordAIUsage(modelId: string, outcome: "success" | "error", usage?: LanguageModelUsage): void {
+  const { provider, model } = parseModelId(modelId) ?? { provider: "unknown", model: modelId };
+  aiRequests.inc({ provider, model, outcome });
+  if (!usage) return;
+
+  const tokens: Array<[string, number | undefined]> = [
+    ["input", usage.inputTokens],
+    ["output", usage.outputTokens],
+    ["reasoning", usage.reasoningTokens],
+    ["cached_input", usage.cachedInputTokens],
+  ];
+  for (const [type, count] of tokens) {
+    if (count) aiTokens.inc({ provider, model, type }, count);
+  }
+}
+
+/**
+ * Record one API route request
+ * @param route - Route pattern used as the label, e.g. "/api/jobs/[id]"
+ */
+export function recordRouteRequest(route: string, method: string, status: number, durationMs: number): void {
+  httpRequests.inc({ route, method, status: String(status) });
+  httpDuration.observe({ route, method }, durationMs / 1000);
+  if (status >= 400) {
+    httpErrors.inc({ route, status: String(status) });
+  }
+}
+
+// ============================================================================
+// Exposition
+// ============================================================================
+
+/**
+ * All metrics in the Prometheus text exposition format (version 0.0.4)
+ */
+export function renderMetrics(): string {
+  return `${registry.flatMap((metric) => metric.render()).join("\n")}\n`;
+}
+
+/**
+ * Whether the request may read metrics. When METRICS_TOKEN is set, scrapers
+ * must send it as a bearer token.
+ */
+export function isMetricsAuthorized(request: NextRequest): boolean {
+  const token = getConfig().metrics.token;
+  return !token || hasBearerToken(request, token);
+}
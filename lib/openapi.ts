@@ -0,0 +1,436 @@
+/**
+ * OpenAPI Document
+ * OpenAPI 3.1 description of the API routes, generated from the zod schemas
+ * the routes validate against
+ */
+
+import { z } from "zod";
+import packageJson from "../package.json";
+import type { TorreApiErrorPayload } from "./torre-errors";
+import { candidateFitAnalysisSchema } from "./prompts";
+import { genomeResponseSchema, jobDetailsSchema, searchResponseSchema } from "./torre-schemas";
+import {
+  aiRequestSchema,
+  fitAnalysisBodySchema,
+  jobBatchBodySchema,
+  jobParamsSchema,
+  searchBodySchema,
+  searchQuerySchema,
+  usernameParamsSchema,
+} from "./validation";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type JsonSchema = Record<string, unknown>;
+
+export interface OpenApiParameter {
+  name: string;
+  in: "path" | "query";
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, { description: string; content?: Record<string, { schema: JsonSchema }> }>;
+}
+
+export interface OpenApiDocument {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description: string };
+  tags: Array<{ name: string; description: string }>;
+  paths: Record<string, Partial<Record<"get" | "post" | "delete", OpenApiOperation>>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+// ============================================================================
+// Schemas - Responses
+// ============================================================================
+
+const errorPayloadSchema = z.object({
+  error: z.string(),
+  code: z.enum(["not_found", "rate_limited", "upstream_unavailable", "invalid_request", "upstream_error"]),
+  upstreamStatus: z.number().optional(),
+  upstreamBody: z.unknown().optional(),
+  retryAfter: z.number().optional().describe("Seconds to wait before retrying"),
+  fields: z.record(z.string(), z.string()).optional().describe("Message per invalid field, e.g. `params.username`"),
+  requestId: z.string().optional().describe("Matches the x-request-id response header and the server logs"),
+}) satisfies z.ZodType<TorreApiErrorPayload>;
+
+const jobBatchResponseSchema = z.object({
+  results: z.array(
+    z.discriminatedUnion("ok", [
+      z.object({ id: z.string(), ok: z.literal(true), job: jobDetailsSchema }),
+      z.object({ id: z.string(), ok: z.literal(false), error: errorPayloadSchema }),
+    ])
+  ),
+});
+
+const aiResponseSchema = z.union([
+  z.object({
+    text: z.string().describe("The generated response"),
+    usage: z
+      .object({
+        inputTokens: z.number().optional(),
+        outputTokens: z.number().optional(),
+        totalTokens: z.number().optional(),
+      })
+      .optional(),
+    finishReason: z.string(),
+    model: z.string().describe('The model that answered, as "provider:model"'),
+  }),
+  z.object({ object: candidateFitAnalysisSchema }).describe('Returned for `output: "candidate-fit"`'),
+]);
+
+const fitAnalysisResponseSchema = z.object({
+  analysis: candidateFitAnalysisSchema,
+  model: z.string().describe('Model that produced the analysis, as "provider:model"'),
+});
+
+// ============================================================================
+// Components
+// ============================================================================
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+// Request schemas are documented as accepted (before defaults), responses as returned
+const REQUEST_SCHEMAS: Record<string, z.ZodType> = {
+  SearchBody: searchBodySchema,
+  JobBatchRequest: jobBatchBodySchema,
+  AIRequest: aiRequestSchema,
+  FitAnalysisRequest: fitAnalysisBodySchema,
+};
+
+const RESPONSE_SCHEMAS: Record<string, z.ZodType> = {
+  SearchResponse: searchResponseSchema,
+  JobDetails: jobDetailsSchema,
+  JobBatchResponse: jobBatchResponseSchema,
+  GenomeResponse: genomeResponseSchema,
+  AIResponse: aiResponseSchema,
+  CandidateFitAnalysis: candidateFitAnalysisSchema,
+  FitAnalysisResponse: fitAnalysisResponseSchema,
+  ErrorPayload: errorPayloadSchema,
+};
+
+function componentSchemas(schemas: Record<string, z.ZodType>, io: "input" | "output"): Record<string, JsonSchema> {
+  const registry = z.registry<{ id: string }>();
+  for (const [id, schema] of Object.entries(schemas)) {
+    registry.add(schema, { id });
+  }
+
+  const { schemas: generated } = z.toJSONSchema(registry, {
+    io,
+    // Transforms (e.g. null to undefined) are documented by their input type
+    unrepresentable: "any",
+    uri: (id) => `#/components/schemas/${id}`,
+  });
+
+  return Object.fromEntries(
+    Object.entries(generated).map(([id, { $schema, $id, ...schema }]) => {
+      void $schema;
+      void $id;
+      return [id, schema];
+    })
+  );
+}
+
+// One parameter per field of an object schema
+function parameters(schema: z.ZodObject, location: "path" | "query"): OpenApiParameter[] {
+  return Object.entries(schema.shape).map(([name, field]) => {
+    const { $schema, description, ...jsonSchema } = z.toJSONSchema(field as z.ZodType, {
+      io: "input",
+      unrepresentable: "any",
+    });
+    void $schema;
+    return {
+      name,
+      in: location,
+      required: location === "path" || !(field as z.ZodType).safeParse(undefined).success,
+      ...(description && { description }),
+      schema: jsonSchema,
+    };
+  });
+}
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+const json = (schema: JsonSchema) => ({ "application/json": { schema } });
+
+const errorResponses = (...statuses: number[]) => {
+  const descriptions: Record<number, string> = {
+    400: "Invalid params, query or body (`invalid_request`, with `fields`)",
+    401: "Missing or wrong bearer token",
+    403: "Disabled by configuration",
+    404: "Not found on Torre (`not_found`)",
+    429: "Rate limited by this app or by Torre (`rate_limited`, with Retry-After)",
+    500: "Unexpected server error",
+    502: "Unexpected Torre response (`upstream_error`)",
+    503: "Torre is unreachable or failing (`upstream_unavailable`)",
+  };
+  return Object.fromEntries(
+    statuses.map((status) => [String(status), { description: descriptions[status], content: json(ref("ErrorPayload")) }])
+  );
+};
+
+const TORRE_ERRORS = [400, 404, 429, 502, 503];
+
+// 502 from AI routes: a different body than Torre's upstream_error
+const aiOutputError = {
+  description:
+    "Torre failed (`upstream_error`), the AI provider failed, or the model output did not match its schema (`fields` lists the invalid ones)",
+  content: json({
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      code: { type: "string" },
+      fields: { type: "object", additionalProperties: { type: "string" } },
+      requestId: { type: "string" },
+    },
+    required: ["error"],
+  }),
+};
+
+function buildDocument(): OpenApiDocument {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Torre Test API",
+      version: packageJson.version,
+      description:
+        "Proxy routes over the public Torre APIs (with caching, retries and validation) and LLM-powered analysis. " +
+        "Every response carries an `x-request-id` header.",
+    },
+    tags: [
+      { name: "Torre", description: "Torre search, jobs and profiles" },
+      { name: "AI", description: "Candidate analysis and text generation" },
+      { name: "Operations", description: "Health and monitoring" },
+    ],
+    paths: {
+      "/api/search": {
+        post: {
+          operationId: "searchOpportunities",
+          summary: "Search job opportunities",
+          tags: ["Torre"],
+          parameters: parameters(searchQuerySchema, "query"),
+          requestBody: { required: true, content: json(ref("SearchBody")) },
+          responses: {
+            "200": { description: "Matching opportunities", content: json(ref("SearchResponse")) },
+            ...errorResponses(...TORRE_ERRORS),
+          },
+        },
+      },
+      "/api/jobs/{id}": {
+        get: {
+          operationId: "getJobDetails",
+          summary: "Get job details",
+          description: "Cached server-side; supports `If-None-Match` (answers 304) and reports the cache state in `X-Cache`.",
+          tags: ["Torre"],
+          parameters: parameters(jobParamsSchema, "path"),
+          responses: {
+            "200": { description: "The job", content: json(ref("JobDetails")) },
+            "304": { description: "The client's cached copy (ETag) is current" },
+            ...errorResponses(...TORRE_ERRORS),
+          },
+        },
+        delete: {
+          operationId: "purgeJobDetails",
+          summary: "Purge the cached job",
+          description: "Requires `Authorization: Bearer <CACHE_PURGE_TOKEN>`; disabled (403) while that variable is unset.",
+          tags: ["Torre"],
+          parameters: parameters(jobParamsSchema, "path"),
+          responses: {
+            "200": {
+              description: "Whether an entry was removed",
+              content: json({ type: "object", properties: { purged: { type: "boolean" } }, required: ["purged"] }),
+            },
+            ...errorResponses(400, 401, 403, 429),
+          },
+        },
+      },
+      "/api/jobs/batch": {
+        post: {
+          operationId: "getJobDetailsBatch",
+          summary: "Get several jobs at once",
+          description: "Fetches with bounded concurrency and reports success or failure per ID. Each ID counts against the jobs rate limit.",
+          tags: ["Torre"],
+          requestBody: { required: true, content: json(ref("JobBatchRequest")) },
+          responses: {
+            "200": { description: "One entry per unique ID, in request order", content: json(ref("JobBatchResponse")) },
+            ...errorResponses(400, 429),
+          },
+        },
+      },
+      "/api/genome/{username}": {
+        get: {
+          operationId: "getGenome",
+          summary: "Get a Torre profile (genome)",
+          description: "Cached server-side; supports `If-None-Match` (answers 304) and reports the cache state in `X-Cache`.",
+          tags: ["Torre"],
+          parameters: parameters(usernameParamsSchema, "path"),
+          responses: {
+            "200": { description: "The profile", content: json(ref("GenomeResponse")) },
+            "304": { description: "The client's cached copy (ETag) is current" },
+            ...errorResponses(...TORRE_ERRORS),
+          },
+        },
+        delete: {
+          operationId: "purgeGenome",
+          summary: "Purge the cached profile",
+          description: "Requires `Authorization: Bearer <CACHE_PURGE_TOKEN>`; disabled (403) while that variable is unset.",
+          tags: ["Torre"],
+          parameters: parameters(usernameParamsSchema, "path"),
+          responses: {
+            "200": {
+              description: "Whether an entry was removed",
+              content: json({ type: "object", properties: { purged: { type: "boolean" } }, required: ["purged"] }),
+            },
+            ...errorResponses(400, 401, 403, 429),
+          },
+        },
+      },
+      "/api/analyses/fit": {
+        post: {
+          operationId: "analyzeCandidateFit",
+          summary: "Analyze how well a Torre user fits a job",
+          description: "Fetches the job and genome server-side and returns a schema-validated analysis.",
+          tags: ["AI"],
+          requestBody: { required: true, content: json(ref("FitAnalysisRequest")) },
+          responses: {
+            "200": { description: "The analysis", content: json(ref("FitAnalysisResponse")) },
+            ...errorResponses(...TORRE_ERRORS, 500),
+            "502": aiOutputError,
+          },
+        },
+      },
+      "/api/analyses/fit/stream": {
+        post: {
+          operationId: "streamCandidateFit",
+          summary: "Stream the fit analysis as it is written",
+          description:
+            "Same input as `/api/analyses/fit`. Answers newline-delimited JSON: `partial` events with the sections " +
+            "received so far, then a `done` event with the validated analysis, or an `error` event. Closing the " +
+            "connection cancels the generation.",
+          tags: ["AI"],
+          requestBody: { required: true, content: json(ref("FitAnalysisRequest")) },
+          responses: {
+            "200": {
+              description: "One event per line",
+              content: {
+                "application/x-ndjson": {
+                  schema: {
+                    oneOf: [
+                      {
+                        type: "object",
+                        properties: { type: { const: "partial" }, analysis: { type: "object" } },
+                        required: ["type", "analysis"],
+                      },
+                      {
+                        type: "object",
+                        properties: {
+                          type: { const: "done" },
+                          analysis: ref("CandidateFitAnalysis"),
+                          model: { type: "string" },
+                        },
+                        required: ["type", "analysis", "model"],
+                      },
+                      {
+                        type: "object",
+                        properties: {
+                          type: { const: "error" },
+                          status: { type: "integer" },
+                          error: { type: "string" },
+                          fields: { type: "object", additionalProperties: { type: "string" } },
+                          requestId: { type: "string" },
+                        },
+                        required: ["type", "status", "error"],
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+            ...errorResponses(...TORRE_ERRORS),
+          },
+        },
+      },
+      "/api/ai": {
+        post: {
+          operationId: "generateText",
+          summary: "Generate text with a configured model",
+          description: "Relays arbitrary prompts; disabled (403) unless `AI_RELAY_ENABLED=true`.",
+          tags: ["AI"],
+          requestBody: { required: true, content: json(ref("AIRequest")) },
+          responses: {
+            "200": { description: "The generated text or structured output", content: json(ref("AIResponse")) },
+            ...errorResponses(400, 429, 500),
+            "403": { description: "The relay is disabled" },
+            "502": { ...aiOutputError, description: "The AI provider failed, or the structured output did not match its schema" },
+          },
+        },
+      },
+      "/api/health": {
+        get: {
+          operationId: "getHealth",
+          summary: "App version, AI configuration and Torre reachability",
+          tags: ["Operations"],
+          parameters: [
+            {
+              name: "probe",
+              in: "query",
+              required: false,
+              description: "Set to `false` to skip the upstream probes",
+              schema: { type: "string", enum: ["true", "false"] },
+            },
+          ],
+          responses: { "200": { description: "Health report", content: json({ type: "object" }) } },
+        },
+      },
+      "/api/diagnostics": {
+        get: {
+          operationId: "getDiagnostics",
+          summary: "Upstream settings, circuit breakers and coalescing counters",
+          tags: ["Operations"],
+          responses: { "200": { description: "Diagnostics report", content: json({ type: "object" }) } },
+        },
+      },
+      "/api/metrics": {
+        get: {
+          operationId: "getMetrics",
+          summary: "Prometheus metrics",
+          description: "Requires `Authorization: Bearer <METRICS_TOKEN>` when that variable is set.",
+          tags: ["Operations"],
+          responses: {
+            "200": { description: "Prometheus text format", content: { "text/plain": { schema: { type: "string" } } } },
+            "401": { description: "Missing or wrong bearer token" },
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        ...componentSchemas(REQUEST_SCHEMAS, "input"),
+        ...componentSchemas(RESPONSE_SCHEMAS, "output"),
+      },
+    },
+  };
+}
+
+let document: OpenApiDocument | null = null;
+
+/**
+ * The OpenAPI document, built once per server instance
+ */
+export function getOpenApiDocument(): OpenApiDocument {
+  document ??= buildDocument();
+  return document;
+}
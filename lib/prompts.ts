@@ -3,6 +3,8 @@
  * Centralized prompt templates for AI interactions
  */
 
+import type { DeepPartial } from "ai";
+import { z } from "zod";
 import { JobDetails, GenomeResponse } from "./torre-api";
 
 // ============================================================================
@@ -14,36 +16,63 @@ export interface CandidateFitAnalysisInput {
   genome: GenomeResponse;
 }
 
-export interface CareerTrajectory {
-  summary: string;
-  growthIndicators: string[];
-  alignmentWithRole: string;
-}
+// ============================================================================
+// Schemas
+// ============================================================================
 
-export interface LocationAndWorkStyle {
-  locationCompatibility: string;
-  remoteWorkAlignment: string;
-  commitmentLevelMatch: string;
-  potentialConcerns: string[];
-}
+export const FIT_SCORES = ["Strong Match", "Good Match", "Partial Match", "Needs Development"] as const;
 
-export interface ProfessionalCredibility {
-  profileQuality: string;
-  professionalPresence: string[];
-  credibilityIndicators: string[];
-}
+const sentences = (min: number, description: string) => z.array(z.string()).min(min).max(5).describe(description);
 
-export interface CandidateFitAnalysisResult {
-  jobSummary: string;
-  overallFitScore: "Strong Match" | "Good Match" | "Partial Match" | "Needs Development" | string;
-  matchingSkillsAndStrengths: string[];
-  areasForDevelopment: string[];
-  recommendations: string[];
-  // New sections
-  careerTrajectory?: CareerTrajectory;
-  locationAndWorkStyle?: LocationAndWorkStyle;
-  professionalCredibility?: ProfessionalCredibility;
-}
+const careerTrajectorySchema = z.object({
+  summary: z.string().describe("1-2 sentences on the candidate's career progression and growth pattern"),
+  growthIndicators: sentences(1, "Evidence of growth: increasing responsibility, notable projects, awards"),
+  alignmentWithRole: z.string().describe("How the trajectory aligns with this position's growth path"),
+});
+
+const locationAndWorkStyleSchema = z.object({
+  locationCompatibility: z.string().describe("Location match between candidate and job requirements"),
+  remoteWorkAlignment: z.string().describe("Remote work preference and experience match"),
+  commitmentLevelMatch: z.string().describe("Full-time/part-time/flexible compatibility"),
+  potentialConcerns: sentences(0, "Timezone, location or work style concerns"),
+});
+
+const professionalCredibilitySchema = z.object({
+  profileQuality: z.string().describe("Profile completeness, verification status and presentation"),
+  professionalPresence: sentences(1, "Evidence of professional engagement and online presence"),
+  credibilityIndicators: sentences(1, "Trust signals such as endorsements or verified status"),
+});
+
+/**
+ * Structured output of the candidate fit analysis
+ */
+export const candidateFitAnalysisSchema = z.object({
+  jobSummary: z.string().describe("A 2-3 paragraph summary of the opportunity, written for the candidate"),
+  overallFitScore: z.enum(FIT_SCORES),
+  matchingSkillsAndStrengths: sentences(2, "Matching skills or strengths, each with a brief explanation"),
+  areasForDevelopment: sentences(2, "Gaps or areas needing improvement, with context"),
+  recommendations: sentences(2, "Actionable recommendations for the candidate"),
+  careerTrajectory: careerTrajectorySchema,
+  locationAndWorkStyle: locationAndWorkStyleSchema,
+  professionalCredibility: professionalCredibilitySchema,
+});
+
+export type CareerTrajectory = z.infer<typeof careerTrajectorySchema>;
+
+export type LocationAndWorkStyle = z.infer<typeof locationAndWorkStyleSchema>;
+
+export type ProfessionalCredibility = z.infer<typeof professionalCredibilitySchema>;
+
+export type CandidateFitAnalysisResult = z.infer<typeof candidateFitAnalysisSchema>;
+
+/** Sections of the analysis received so far while it streams */
+export type PartialCandidateFitAnalysis = DeepPartial<CandidateFitAnalysisResult>;
+
+/** One line of the POST /api/analyses/fit/stream response (NDJSON) */
+export type FitAnalysisStreamEvent =
+  | { type: "partial"; analysis: PartialCandidateFitAnalysis }
+  | { type: "done"; analysis: CandidateFitAnalysisResult; model: string }
+  | { type: "error"; status: number; error: string; fields?: Record<string, string>; requestId?: string };
 
 // ============================================================================
 // Helper Functions for Formatting
@@ -85,7 +114,7 @@ const formatFluency = (fluency: string): string => {
   return fluencyMap[fluency] || fluency?.replace(/-/g, " ").replace(/\b\w/g, (c) => c.toUpperCase()) || "";
 };
 
-const formatCommitment = (commitment: JobDetails["commitment"]): string => {
+const formatCommitment = (commitment: NonNullable<JobDetails["commitment"]>): string => {
   const commitMap: Record<string, string> = {
     "full-time": "Full-time",
     "part-time": "Part-time",
@@ -117,7 +146,7 @@ const formatCompensation = (compensation: JobDetails["compensation"] | null | un
  * System prompt for candidate fit analysis
  */
 export const CANDIDATE_FIT_SYSTEM_PROMPT = 
-  "You are an expert talent acquisition specialist and career advisor. Always respond with valid JSON only. Do not include any text outside the JSON object.";
+  "You are an expert talent acquisition specialist and career advisor. Fill in every field of the requested analysis.";
 
 /**
  * Generate the prompt for candidate fit analysis
@@ -282,19 +311,3 @@ export function getFitScoreColor(score: string): { bg: string; text: string } {
   if (scoreLower.includes('needs') || scoreLower.includes('weak')) return { bg: 'bg-orange-500/20', text: 'text-orange-400' };
   return { bg: 'bg-blue-500/20', text: 'text-blue-400' };
 }
-
-/**
- * Parse AI response and extract JSON
- */
-export function parseAIResponse(text: string): CandidateFitAnalysisResult {
-  try {
-    return JSON.parse(text);
-  } catch {
-    // Try to extract JSON from the response if it has extra text
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]);
-    }
-    throw new Error("Failed to parse AI response");
-  }
-}
@@ -0,0 +1,174 @@
+/**
+ * Rate Limiting
+ * Per-client token buckets guarding the proxy and AI routes
+ */
+
+import { createHash } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "./api-errors";
+import { getConfig } from "./config";
+import { logger } from "./logger";
+import { TorreRateLimitedError } from "./torre-errors";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Route groups, each with its own budget */
+export type RateLimitRoute = "search" | "jobs" | "genome" | "ai";
+
+export interface RateLimitBudget {
+  /** Tokens added per minute */
+  perMinute: number;
+  /** Bucket size, i.e. the largest burst allowed */
+  burst: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Seconds until enough tokens are available (0 when allowed) */
+  retryAfter: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Whether limiting is on; set RATE_LIMIT_ENABLED=false to turn it off */
+export const isRateLimitEnabled = (): boolean => getConfig().rateLimit.enabled;
+
+/**
+ * Budget for a route group from RATE_LIMIT_<ROUTE>_PER_MINUTE and
+ * RATE_LIMIT_<ROUTE>_BURST
+ */
+export function getRateLimitBudget(route: RateLimitRoute): RateLimitBudget {
+  return getConfig().rateLimit.budgets[route];
+}
+
+// Keys listed in RATE_LIMIT_API_KEYS get their own bucket instead of sharing the IP's
+const knownApiKeys = (): Set<string> => new Set(getConfig().rateLimit.apiKeys);
+
+// ============================================================================
+// Client Identity
+// ============================================================================
+
+/** Bucket shared by every caller whose address is unknown */
+const SHARED_CLIENT_KEY = "ip:unknown";
+
+/**
+ * Client address from the forwarding headers. Each proxy appends the address
+ * it received the request from to X-Forwarded-For, so with
+ * RATE_LIMIT_TRUSTED_PROXIES=N the entry added by the outermost trusted proxy
+ * (N-th from the right) is the right-most one the client could not have
+ * written. Without trusted proxies the right-most entry is used: the address
+ * seen by the hop next to the app (the platform's edge on Vercel).
+ */
+function getClientIp(request: NextRequest): string | undefined {
+  const hops = Math.max(1, getConfig().rateLimit.trustedProxies);
+
+  const forwarded = request.headers.get("x-forwarded-for");
+  if (forwarded) {
+    const entries = forwarded.split(",").map((entry) => entry.trim());
+    // Fewer entries than hops: every entry was added by a trusted proxy
+    return entries[Math.max(0, entries.length - hops)] || undefined;
+  }
+  return request.headers.get("x-real-ip")?.trim() || undefined;
+}
+
+let warnedSharedKey = false;
+
+/**
+ * Identify the caller: a known API key (x-api-key header), the client IP from
+ * the forwarding headers, or else one shared key (logged once, since every
+ * such caller then draws from the same budget)
+ */
+export function getClientKey(request: NextRequest): string {
+  const apiKey = request.headers.get("x-api-key");
+  if (apiKey && knownApiKeys().has(apiKey)) {
+    return `key:${createHash("sha1").update(apiKey).digest("hex").slice(0, 16)}`;
+  }
+
+  const ip = getClientIp(request);
+  if (ip) return `ip:${ip}`;
+
+  if (!warnedSharedKey) {
+    warnedSharedKey = true;
+    logger.warn("rate_limit_shared_bucket", {
+      reason: "No client address in x-forwarded-for or x-real-ip; clients without an API key share one budget",
+    });
+  }
+  return SHARED_CLIENT_KEY;
+}
+
+// ============================================================================
+// Token Buckets
+// ============================================================================
+
+const MAX_BUCKETS = 10_000;
+const buckets = new Map<string, Bucket>();
+
+// Full buckets carry no state worth keeping, drop them when the map grows
+function sweep(now: number): void {
+  for (const [key, bucket] of buckets) {
+    const route = key.slice(0, key.indexOf("|")) as RateLimitRoute;
+    const { perMinute, burst } = getRateLimitBudget(route);
+    if (bucket.tokens + ((now - bucket.updatedAt) / 60_000) * perMinute >= burst) {
+      buckets.delete(key);
+    }
+  }
+}
+
+/**
+ * Take `cost` tokens from the client's bucket for a route group
+ */
+export function consumeRateLimit(route: RateLimitRoute, clientKey: string, cost = 1): RateLimitResult {
+  const { perMinute, burst } = getRateLimitBudget(route);
+  const key = `${route}|${clientKey}`;
+  const now = Date.now();
+  // A request larger than the bucket would never fit, charge it a full bucket
+  const charge = Math.min(cost, burst);
+
+  const bucket = buckets.get(key) ?? { tokens: burst, updatedAt: now };
+  bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 60_000) * perMinute);
+  bucket.updatedAt = now;
+
+  if (bucket.tokens < charge) {
+    buckets.set(key, bucket);
+    const missing = charge - bucket.tokens;
+    return {
+      allowed: false,
+      remaining: Math.floor(bucket.tokens),
+      retryAfter: Math.max(1, Math.ceil((missing / perMinute) * 60)),
+    };
+  }
+
+  bucket.tokens -= charge;
+  buckets.set(key, bucket);
+  if (buckets.size > MAX_BUCKETS) sweep(now);
+
+  return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfter: 0 };
+}
+
+/**
+ * Apply the route's rate limit to a request
+ * @param cost - Tokens this request uses, e.g. the number of IDs in a batch
+ * @returns A 429 response with Retry-After when the client is over budget, otherwise null
+ */
+export function rateLimit(request: NextRequest, route: RateLimitRoute, cost = 1): NextResponse | null {
+  if (!isRateLimitEnabled()) return null;
+
+  const result = consumeRateLimit(route, getClientKey(request), cost);
+  if (result.allowed) return null;
+
+  return errorResponse(
+    new TorreRateLimitedError(`Too many ${route} requests, retry in ${result.retryAfter}s`, {
+      retryAfter: result.retryAfter,
+    })
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Route Handler Wrapper
+ * Request ids, structured request logs and metrics for every API route
+ */
+
+import { NextRequest } from "next/server";
+import { errorResponse } from "./api-errors";
+import { REQUEST_ID_HEADER, logger, resolveRequestId, runWithRequestContext } from "./logger";
+import { recordRouteRequest } from "./metrics";
+
+/** Status logged for a streamed response the client stopped reading (nginx's convention) */
+export const CLIENT_CLOSED_REQUEST = 499;
+
+// Final status of streamed responses, settled when their body ends
+const streamOutcomes = new WeakMap<Response, Promise<number>>();
+
+/**
+ * Mark a streamed response whose outcome is only known once its body ends:
+ * withRoute logs and measures the request when `outcome` settles with the
+ * final status (e.g. 502 for an error event, CLIENT_CLOSED_REQUEST when the
+ * client went away) instead of when the headers are sent.
+ */
+export function withStreamOutcome(response: Response, outcome: Promise<number>): Response {
+  streamOutcomes.set(response, outcome);
+  return response;
+}
+
+/**
+ * Wrap a route handler: propagates or generates the x-request-id header
+ * (echoed on the response), logs the request outcome and records metrics.
+ * Anything the handler throws becomes a normalized error response. Streamed
+ * responses are recorded when their body ends, see withStreamOutcome.
+ * @param route - Route pattern used in logs and metrics, e.g. "/api/jobs/[id]"
+ * @example
+ * export const GET = withRoute("/api/jobs/[id]", async (request, { params }) => { ... });
+ */
+export function withRoute<C>(
+  route: string,
+  handler: (request: NextRequest, context: C) => Promise<Response>
+): (request: NextRequest, context: C) => Promise<Response> {
+  return (request, context) => {
+    const requestId = resolveRequestId(request.headers.get(REQUEST_ID_HEADER));
+
+    return runWithRequestContext({ requestId, route }, async () => {
+      const startedAt = performance.now();
+
+      let response: Response;
+      try {
+        response = await handler(request, context);
+      } catch (error) {
+        response = errorResponse(error);
+      }
+
+      response.headers.set(REQUEST_ID_HEADER, requestId);
+
+      const complete = (status: number) => {
+        const durationMs = Math.round(performance.now() - startedAt);
+        recordRouteRequest(route, request.method, status, durationMs);
+
+        const fields = { method: request.method, path: request.nextUrl.pathname, status, durationMs };
+        if (status >= 500) logger.error("request_completed", fields);
+        else if (status >= 400 && status !== CLIENT_CLOSED_REQUEST) logger.warn("request_completed", fields);
+        else logger.info("request_completed", fields);
+      };
+
+      const outcome = streamOutcomes.get(response);
+      if (outcome) {
+        void outcome.then(complete, () => complete(500));
+      } else {
+        complete(response.status);
+      }
+
+      return response;
+    });
+  };
+}
@@ -3,6 +3,15 @@
  * Centralized API calls to Torre endpoints
  */
 
+import { mapWithConcurrency } from "./concurrency";
+import {
+  TorreApiError,
+  TorreUpstreamUnavailableError,
+  fromResponse,
+  isAbortError,
+  type TorreApiErrorPayload,
+} from "./torre-errors";
+
 // ============================================================================
 // Types - Search Opportunities
 // ============================================================================
@@ -76,16 +85,40 @@ export interface JobResult {
   quickApply: boolean;
 }
 
+export interface AggregatorBucket {
+  value: string;
+  total: number;
+}
+
+/** Facets returned by the upstream search when `aggregate` is requested */
+export interface SearchAggregators {
+  type?: AggregatorBucket[];
+  remote?: AggregatorBucket[];
+  skill?: AggregatorBucket[];
+  organization?: AggregatorBucket[];
+  compensationrange?: AggregatorBucket[];
+  [facet: string]: AggregatorBucket[] | undefined;
+}
+
+export type FacetKey = "type" | "remote" | "skill" | "organization" | "compensationrange";
+
+export interface FacetSelection {
+  facet: FacetKey;
+  value: string;
+}
+
+export interface SearchPagination {
+  previous: string | null;
+  next: string | null;
+}
+
 export interface SearchResponse {
   total: number;
   size: number;
   results: JobResult[];
   offset?: number;
-  aggregators?: Record<string, unknown>;
-  pagination?: {
-    previous: string | null;
-    next: string | null;
-  };
+  aggregators?: SearchAggregators;
+  pagination?: SearchPagination;
 }
 
 export interface SearchFilters {
@@ -99,13 +132,77 @@ export interface SearchFilters {
     proficiency?: string;
   }>;
   status?: string;
+  /** true for remote jobs only, false for on-site only; omit for both */
+  remote?: boolean;
+  organization?: string;
+  location?: string;
+  type?: string;
+  compensation?: CompensationRange;
+  quickApply?: boolean;
+  /** Additional expression (built with `searchFilter`) AND-ed with the fields above */
+  where?: SearchNode;
 }
 
-export interface SearchOptions {
-  size?: number;
+// ============================================================================
+// Types - Search Filter DSL
+// ============================================================================
+
+export interface CompensationRange {
+  minAmount?: number;
+  maxAmount?: number;
+  /** Defaults to the search `currency` option */
   currency?: string;
+  /** Defaults to the search `periodicity` option */
   periodicity?: string;
-  lang?: string;
+}
+
+export type SearchCriterion =
+  | { kind: "keyword"; term: string; locale?: string }
+  | { kind: "language"; term: string; fluency?: string }
+  | { kind: "skill"; text: string; proficiency?: string }
+  | { kind: "status"; code: string }
+  | { kind: "remote" }
+  | { kind: "organization"; term: string }
+  | { kind: "location"; term: string }
+  | { kind: "type"; code: string }
+  | ({ kind: "compensation" } & CompensationRange)
+  | { kind: "quickApply" };
+
+export type SearchNode =
+  | SearchCriterion
+  | { and: SearchNode[] }
+  | { or: SearchNode[] }
+  | { not: SearchNode };
+
+export const SUPPORTED_CURRENCIES = ["USD", "EUR", "GBP", "CAD", "MXN", "COP", "BRL", "ARS", "CLP", "PEN"] as const;
+export const SUPPORTED_PERIODICITIES = ["hourly", "monthly", "yearly"] as const;
+export const SUPPORTED_LANGS = ["en", "es", "pt"] as const;
+
+export type SearchCurrency = (typeof SUPPORTED_CURRENCIES)[number];
+export type SearchPeriodicity = (typeof SUPPORTED_PERIODICITIES)[number];
+export type SearchLang = (typeof SUPPORTED_LANGS)[number];
+
+/** Per-call controls accepted by every client method */
+export interface RequestOptions {
+  /** Cancels the request, e.g. when a newer one supersedes it */
+  signal?: AbortSignal;
+  /** Fails the request with TorreUpstreamUnavailableError after this many ms */
+  timeoutMs?: number;
+}
+
+export interface SearchOptions extends RequestOptions {
+  size?: number;
+  currency?: SearchCurrency;
+  periodicity?: SearchPeriodicity;
+  lang?: SearchLang;
+  /** Number of results to skip (plain offset paging) */
+  offset?: number;
+  /** Cursor from `pagination.next` to fetch the following page */
+  after?: string;
+  /** Cursor from `pagination.previous` to fetch the preceding page */
+  before?: string;
+  /** Ask the upstream to include facet counts in `aggregators` */
+  aggregate?: boolean;
 }
 
 // ============================================================================
@@ -200,9 +297,29 @@ export interface JobDetails {
   languages: Language[];
   place: Place;
   details: Detail[];
-  commitment: Commitment;
-  agreement: Agreement;
-  compensation: JobCompensation;
+  /** null when the job does not state it */
+  commitment: Commitment | null;
+  agreement: Agreement | null;
+  compensation: JobCompensation | null;
+}
+
+// ============================================================================
+// Types - Job Batch
+// ============================================================================
+
+/** Outcome for one ID of a batch lookup */
+export type JobBatchEntry =
+  | { id: string; ok: true; job: JobDetails }
+  | { id: string; ok: false; error: TorreApiErrorPayload };
+
+export interface JobBatchResponse {
+  /** One entry per unique requested ID, in request order */
+  results: JobBatchEntry[];
+}
+
+export interface JobBatchOptions extends RequestOptions {
+  /** Parallel lookups, capped by the server's TORRE_BATCH_CONCURRENCY */
+  concurrency?: number;
 }
 
 // ============================================================================
@@ -300,25 +417,290 @@ export interface GenomeResponse {
   languages: GenomeLanguage[];
 }
 
+// ============================================================================
+// Search Filter Builder
+// ============================================================================
+
+/**
+ * Typed builder for search expressions
+ * @example
+ * const where = searchFilter.and(
+ *   searchFilter.or(searchFilter.skill("Figma"), searchFilter.skill("Sketch")),
+ *   searchFilter.not(searchFilter.organization("Acme"))
+ * );
+ * const results = await searchOpportunities({ keyword: "Designer", where });
+ */
+export const searchFilter = {
+  and: (...nodes: SearchNode[]): SearchNode => ({ and: nodes }),
+  or: (...nodes: SearchNode[]): SearchNode => ({ or: nodes }),
+  not: (node: SearchNode): SearchNode => ({ not: node }),
+  keyword: (term: string, locale?: string): SearchNode => ({ kind: "keyword", term, locale }),
+  language: (term: string, fluency?: string): SearchNode => ({ kind: "language", term, fluency }),
+  skill: (text: string, proficiency?: string): SearchNode => ({ kind: "skill", text, proficiency }),
+  status: (code: string): SearchNode => ({ kind: "status", code }),
+  remote: (): SearchNode => ({ kind: "remote" }),
+  organization: (term: string): SearchNode => ({ kind: "organization", term }),
+  location: (term: string): SearchNode => ({ kind: "location", term }),
+  type: (code: string): SearchNode => ({ kind: "type", code }),
+  compensation: (range: CompensationRange): SearchNode => ({ kind: "compensation", ...range }),
+  quickApply: (): SearchNode => ({ kind: "quickApply" }),
+};
+
+interface SerializeContext {
+  lang: string;
+  currency: string;
+  periodicity: string;
+}
+
+/**
+ * Convert the flat SearchFilters fields into a single AND expression
+ */
+export function toSearchNode(filters: SearchFilters): SearchNode {
+  const nodes: SearchNode[] = [];
+
+  if (filters.keyword) nodes.push(searchFilter.keyword(filters.keyword));
+  if (filters.language) nodes.push(searchFilter.language(filters.language.term, filters.language.fluency));
+  filters.skills?.forEach((skill) => nodes.push(searchFilter.skill(skill.text, skill.proficiency)));
+  if (filters.status) nodes.push(searchFilter.status(filters.status));
+  if (filters.remote === true) nodes.push(searchFilter.remote());
+  if (filters.remote === false) nodes.push(searchFilter.not(searchFilter.remote()));
+  if (filters.organization) nodes.push(searchFilter.organization(filters.organization));
+  if (filters.location) nodes.push(searchFilter.location(filters.location));
+  if (filters.type) nodes.push(searchFilter.type(filters.type));
+  if (filters.compensation) nodes.push(searchFilter.compensation(filters.compensation));
+  if (filters.quickApply) nodes.push(searchFilter.quickApply());
+  if (filters.where) nodes.push(filters.where);
+
+  return searchFilter.and(...nodes);
+}
+
+const serializeCriterion = (
+  criterion: SearchCriterion,
+  context: SerializeContext
+): Record<string, unknown> => {
+  switch (criterion.kind) {
+    case "keyword":
+      return { keywords: { term: criterion.term, locale: criterion.locale || context.lang } };
+    case "language":
+      return { language: { term: criterion.term, fluency: criterion.fluency || "conversational" } };
+    case "skill":
+      return { "skill/role": { text: criterion.text, proficiency: criterion.proficiency || "proficient" } };
+    case "status":
+      return { status: { code: criterion.code } };
+    case "remote":
+      return { remote: { term: true } };
+    case "organization":
+      return { organization: { term: criterion.term } };
+    case "location":
+      return { location: { term: criterion.term } };
+    case "type":
+      return { type: { code: criterion.code } };
+    case "compensation":
+      return {
+        compensationrange: {
+          minAmount: criterion.minAmount,
+          maxAmount: criterion.maxAmount,
+          currency: criterion.currency || context.currency,
+          periodicity: criterion.periodicity || context.periodicity,
+        },
+      };
+    case "quickApply":
+      return { quickApply: { term: true } };
+  }
+};
+
+const serializeNode = (node: SearchNode, context: SerializeContext): Record<string, unknown> => {
+  if ("and" in node) return { and: node.and.map((child) => serializeNode(child, context)) };
+  if ("or" in node) return { or: node.or.map((child) => serializeNode(child, context)) };
+  if ("not" in node) return { not: serializeNode(node.not, context) };
+  return serializeCriterion(node, context);
+};
+
+const isSearchNode = (value: SearchFilters | SearchNode): value is SearchNode =>
+  "kind" in value || "and" in value || "or" in value || "not" in value;
+
+/**
+ * Serialize a search expression into the Torre search request body.
+ * The upstream expects an `and` group at the root, so lone criteria are wrapped.
+ */
+export function serializeSearchFilters(
+  filters: SearchFilters | SearchNode,
+  context: SerializeContext
+): Record<string, unknown> {
+  const node = isSearchNode(filters) ? filters : toSearchNode(filters);
+  const body = serializeNode(node, context);
+  return "and" in body ? body : { and: [body] };
+}
+
+// ============================================================================
+// Search Facets
+// ============================================================================
+
+/**
+ * Parse a compensation bucket value such as "10-20" or "100+" into a range
+ */
+export function parseCompensationBucket(value: string): CompensationRange | null {
+  const match = value.match(/^\s*(\d+(?:\.\d+)?)\s*(?:-\s*(\d+(?:\.\d+)?)|\+)?\s*$/);
+  if (!match) return null;
+  return {
+    minAmount: Number(match[1]),
+    maxAmount: match[2] ? Number(match[2]) : undefined,
+  };
+}
+
+/**
+ * Narrow a search by a facet value picked from `SearchResponse.aggregators`
+ * @example
+ * const refined = refineSearchFilters({ keyword: "Designer" }, "skill", "figma");
+ */
+export function refineSearchFilters(
+  filters: SearchFilters,
+  facet: FacetKey,
+  value: string
+): SearchFilters {
+  switch (facet) {
+    case "type":
+      return { ...filters, type: value };
+    case "remote":
+      return { ...filters, remote: value === "yes" || value === "true" };
+    case "skill":
+      return { ...filters, skills: [...(filters.skills || []), { text: value }] };
+    case "organization":
+      return { ...filters, organization: value };
+    case "compensationrange": {
+      const range = parseCompensationBucket(value);
+      return range ? { ...filters, compensation: range } : filters;
+    }
+  }
+}
+
 // ============================================================================
 // API Client Class
 // ============================================================================
 
-class TorreApiClient {
-  private baseUrl: string;
+export interface TorreEndpoints {
+  search: string;
+  opportunities: string;
+  genome: string;
+}
+
+/** Public Torre hosts; override with TORRE_SEARCH_BASE_URL and TORRE_API_BASE_URL (see lib/config.ts) */
+export const TORRE_BASE_URLS = {
+  search: "https://search.torre.co",
+  api: "https://torre.ai/api",
+};
+
+/**
+ * Torre endpoints used for direct (server-side) calls under the given hosts
+ */
+export function torreEndpoints(searchBaseUrl: string, apiBaseUrl: string): TorreEndpoints {
+  return {
+    search: `${searchBaseUrl}/opportunities/_search`,
+    opportunities: `${apiBaseUrl}/suite/opportunities`,
+    genome: `${apiBaseUrl}/genome/bios`,
+  };
+}
+
+/** Public Torre endpoints */
+export const TORRE_ENDPOINTS = torreEndpoints(TORRE_BASE_URLS.search, TORRE_BASE_URLS.api);
 
-  constructor(baseUrl: string = "") {
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+export type TorreApiClientMode = "proxy" | "direct";
+
+export interface TorreApiClientOptions {
+  /**
+   * "proxy" calls this app's /api routes, "direct" calls Torre itself.
+   * Defaults to "proxy" in the browser and "direct" on the server. Direct mode
+   * with the default fetch skips the upstream layer (retries, circuit breaker,
+   * mock mode, cache and validation); server code should use `torreServerApi`
+   * from lib/torre-server.ts.
+   */
+  mode?: TorreApiClientMode;
+  /** Origin of the app for proxy mode, e.g. "https://torre-test.example.com" ("" = same origin) */
+  baseUrl?: string;
+  /** Fetch implementation, e.g. a stub in tests or an instrumented fetch on the server */
+  fetch?: FetchLike;
+  /** Torre endpoints for direct mode (default: the public ones) */
+  endpoints?: TorreEndpoints;
+}
+
+export class TorreApiClient {
+  private baseUrl: string;
+  private mode: TorreApiClientMode;
+  private fetchImpl: FetchLike;
+  private endpoints: TorreEndpoints;
+
+  constructor(options: TorreApiClientOptions | string = {}) {
+    const {
+      mode,
+      baseUrl = "",
+      fetch: fetchImpl,
+      endpoints = TORRE_ENDPOINTS,
+    } = typeof options === "string" ? { baseUrl: options } : options;
     this.baseUrl = baseUrl;
+    this.endpoints = endpoints;
+    this.mode = mode ?? (typeof window === "undefined" ? "direct" : "proxy");
+    // Resolve lazily so a fetch patched after construction (e.g. by a test) is used
+    this.fetchImpl = fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  private searchUrl(queryParams: URLSearchParams): string {
+    if (this.mode === "proxy") {
+      return `${this.baseUrl}/api/search?${queryParams.toString()}`;
+    }
+    const upstreamParams = new URLSearchParams(queryParams);
+    upstreamParams.set("contextFeature", "job_feed");
+    return `${this.endpoints.search}?${upstreamParams.toString()}`;
+  }
+
+  private jobUrl(jobId: string): string {
+    const id = encodeURIComponent(jobId);
+    return this.mode === "proxy" ? `${this.baseUrl}/api/jobs/${id}` : `${this.endpoints.opportunities}/${id}`;
+  }
+
+  private genomeUrl(username: string): string {
+    const name = encodeURIComponent(username);
+    return this.mode === "proxy" ? `${this.baseUrl}/api/genome/${name}` : `${this.endpoints.genome}/${name}`;
+  }
+
+  /**
+   * Fetch and parse JSON, honoring the caller's signal and timeout.
+   * Caller aborts are rethrown as-is (see isAbortError).
+   */
+  private async request<T>(url: string, init: RequestInit, resource: string, options: RequestOptions): Promise<T> {
+    const { signal, timeoutMs } = options;
+    const timeout = timeoutMs != null ? AbortSignal.timeout(timeoutMs) : undefined;
+    const signals = [signal, timeout].filter((s): s is AbortSignal => !!s);
+
+    try {
+      const response = await this.fetchImpl(url, {
+        ...init,
+        signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0],
+      });
+
+      if (!response.ok) {
+        throw await fromResponse(response, resource);
+      }
+
+      return (await response.json()) as T;
+    } catch (error) {
+      if (timeout?.aborted && !signal?.aborted) {
+        throw new TorreUpstreamUnavailableError(`${resource} did not respond within ${timeoutMs}ms`);
+      }
+      throw error;
+    }
   }
 
   /**
    * Search for job opportunities
+   * @throws TorreApiError (see lib/torre-errors) when the request fails
    */
   async searchOpportunities(
-    filters: SearchFilters,
+    filters: SearchFilters | SearchNode,
     options: SearchOptions = {}
   ): Promise<SearchResponse> {
-    const { size = 10, currency = "USD", periodicity = "hourly", lang = "en" } = options;
+    const { size = 10, currency = "USD", periodicity = "hourly", lang = "en", offset, after, before, aggregate } = options;
     
     const queryParams = new URLSearchParams({
       size: size.toString(),
@@ -327,87 +709,99 @@ class TorreApiClient {
       lang,
     });
 
-    // Build the request body
-    const andFilters: Array<Record<string, unknown>> = [];
-
-    if (filters.keyword) {
-      andFilters.push({
-        keywords: { term: filters.keyword, locale: lang },
-      });
+    if (offset != null) {
+      queryParams.set("offset", offset.toString());
     }
-
-    if (filters.language) {
-      andFilters.push({
-        language: {
-          term: filters.language.term,
-          fluency: filters.language.fluency || "conversational",
-        },
-      });
+    if (after) {
+      queryParams.set("after", after);
     }
-
-    if (filters.skills) {
-      filters.skills.forEach((skill) => {
-        andFilters.push({
-          "skill/role": {
-            text: skill.text,
-            proficiency: skill.proficiency || "proficient",
-          },
-        });
-      });
+    if (before) {
+      queryParams.set("before", before);
     }
-
-    if (filters.status) {
-      andFilters.push({
-        status: { code: filters.status },
-      });
+    if (aggregate) {
+      queryParams.set("aggregate", "true");
     }
 
-    const response = await fetch(
-      `${this.baseUrl}/api/search?${queryParams.toString()}`,
+    const body = serializeSearchFilters(filters, { lang, currency, periodicity });
+
+    return this.request<SearchResponse>(
+      this.searchUrl(queryParams),
       {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ and: andFilters }),
-      }
+        body: JSON.stringify(body),
+      },
+      "Opportunity search",
+      options
     );
-
-    if (!response.ok) {
-      throw new Error(`Search failed: ${response.statusText}`);
-    }
-
-    return response.json();
   }
 
   /**
    * Get job details by ID
+   * @throws TorreNotFoundError when the job no longer exists
    */
-  async getJobDetails(jobId: string): Promise<JobDetails> {
-    const response = await fetch(`${this.baseUrl}/api/jobs/${jobId}`, {
-      method: "GET",
-      headers: { "Content-Type": "application/json" },
-    });
+  async getJobDetails(jobId: string, options: RequestOptions = {}): Promise<JobDetails> {
+    return this.request<JobDetails>(
+      this.jobUrl(jobId),
+      {
+        method: "GET",
+        headers: { "Content-Type": "application/json" },
+      },
+      `Job ${jobId}`,
+      options
+    );
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch job details: ${response.statusText}`);
+  /**
+   * Get the details of several jobs at once. Failed lookups are reported per
+   * ID instead of failing the whole batch.
+   * @throws TorreApiError when the batch request itself is rejected
+   */
+  async getJobDetailsBatch(jobIds: string[], options: JobBatchOptions = {}): Promise<JobBatchResponse> {
+    const { concurrency = 4, ...requestOptions } = options;
+
+    if (this.mode === "direct") {
+      const ids = [...new Set(jobIds)];
+      const results = await mapWithConcurrency(ids, concurrency, async (id): Promise<JobBatchEntry> => {
+        try {
+          return { id, ok: true, job: await this.getJobDetails(id, requestOptions) };
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          const apiError = error instanceof TorreApiError
+            ? error
+            : new TorreApiError(error instanceof Error ? error.message : `Request for Job ${id} failed`);
+          return { id, ok: false, error: apiError.toJSON() };
+        }
+      });
+      return { results };
     }
 
-    return response.json();
+    return this.request<JobBatchResponse>(
+      `${this.baseUrl}/api/jobs/batch`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids: jobIds, concurrency }),
+      },
+      "Job batch",
+      requestOptions
+    );
   }
 
   /**
    * Get user genome/bio by username
+   * @throws TorreNotFoundError when no profile matches the username
    */
-  async getGenome(username: string): Promise<GenomeResponse> {
-    const response = await fetch(`${this.baseUrl}/api/genome/${username}`, {
-      method: "GET",
-      headers: { "Content-Type": "application/json" },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch genome: ${response.statusText}`);
-    }
-
-    return response.json();
+  async getGenome(username: string, options: RequestOptions = {}): Promise<GenomeResponse> {
+    return this.request<GenomeResponse>(
+      this.genomeUrl(username),
+      {
+        method: "GET",
+        headers: { "Content-Type": "application/json" },
+      },
+      `Profile ${username}`,
+      options
+    );
   }
 }
 
@@ -415,6 +809,10 @@ class TorreApiClient {
 // Singleton Instance
 // ============================================================================
 
+/**
+ * Shared client for the browser, where it goes through the /api routes. On the
+ * server it calls Torre with a plain fetch; use `torreServerApi` there instead.
+ */
 export const torreApi = new TorreApiClient();
 
 // ============================================================================
@@ -427,21 +825,49 @@ export const torreApi = new TorreApiClient();
  * const results = await searchOpportunities({ keyword: "Designer", status: "open" }, { size: 12 });
  */
 export const searchOpportunities = (
-  filters: SearchFilters,
+  filters: SearchFilters | SearchNode,
   options?: SearchOptions
 ) => torreApi.searchOpportunities(filters, options);
 
+/**
+ * Iterate over every page of a search, following `pagination.next` cursors
+ * @example
+ * for await (const page of searchAllOpportunities({ keyword: "Designer" }, { size: 48 })) {
+ *   console.log(page.results.length);
+ * }
+ */
+export async function* searchAllOpportunities(
+  filters: SearchFilters | SearchNode,
+  options: SearchOptions = {}
+): AsyncGenerator<SearchResponse> {
+  let after = options.after;
+  do {
+    const page = await torreApi.searchOpportunities(filters, { ...options, after, before: undefined });
+    yield page;
+    after = page.results?.length ? page.pagination?.next ?? undefined : undefined;
+  } while (after);
+}
+
 /**
  * Get job details by ID
  * @example
  * const job = await getJobDetails("PW9yY63W");
  */
-export const getJobDetails = (jobId: string) => torreApi.getJobDetails(jobId);
+export const getJobDetails = (jobId: string, options?: RequestOptions) => torreApi.getJobDetails(jobId, options);
+
+/**
+ * Get the details of several jobs at once
+ * @example
+ * const { results } = await getJobDetailsBatch(["PW9yY63W", "NdzYbQbr"]);
+ * const jobs = results.flatMap((entry) => (entry.ok ? [entry.job] : []));
+ */
+export const getJobDetailsBatch = (jobIds: string[], options?: JobBatchOptions) =>
+  torreApi.getJobDetailsBatch(jobIds, options);
 
 /**
  * Get user genome/bio by username
  * @example
  * const genome = await getGenome("josemanuelpr23");
  */
-export const getGenome = (username: string) => torreApi.getGenome(username);
+export const getGenome = (username: string, options?: RequestOptions) => torreApi.getGenome(username, options);
 
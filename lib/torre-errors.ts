@@ -0,0 +1,224 @@
+/**
+ * Torre API Errors
+ * Typed error model shared by the proxy routes and TorreApiClient
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TorreApiErrorCode =
+  | "not_found"
+  | "rate_limited"
+  | "upstream_unavailable"
+  | "invalid_request"
+  | "upstream_error";
+
+/**
+ * JSON body returned by the proxy routes on failure.
+ * `error` stays a plain message so older callers keep working.
+ */
+export interface TorreApiErrorPayload {
+  error: string;
+  code: TorreApiErrorCode;
+  upstreamStatus?: number;
+  upstreamBody?: unknown;
+  retryAfter?: number;
+  /** Message per invalid request field, keyed by path (e.g. "query.size") */
+  fields?: Record<string, string>;
+  /** x-request-id of the failed request, for correlating with server logs */
+  requestId?: string;
+}
+
+interface TorreApiErrorOptions {
+  upstreamStatus?: number;
+  upstreamBody?: unknown;
+  retryAfter?: number;
+  fields?: Record<string, string>;
+  requestId?: string;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class TorreApiError extends Error {
+  readonly code: TorreApiErrorCode = "upstream_error";
+  readonly status: number = 502;
+  readonly upstreamStatus?: number;
+  readonly upstreamBody?: unknown;
+  readonly retryAfter?: number;
+  readonly fields?: Record<string, string>;
+  readonly requestId?: string;
+
+  constructor(message: string, options: TorreApiErrorOptions = {}) {
+    super(message);
+    this.name = "TorreApiError";
+    this.upstreamStatus = options.upstreamStatus;
+    this.upstreamBody = options.upstreamBody;
+    this.retryAfter = options.retryAfter;
+    this.fields = options.fields;
+    this.requestId = options.requestId;
+  }
+
+  /** Whether retrying the same request later may succeed */
+  get retryable(): boolean {
+    return false;
+  }
+
+  toJSON(): TorreApiErrorPayload {
+    return {
+      error: this.message,
+      code: this.code,
+      upstreamStatus: this.upstreamStatus,
+      upstreamBody: this.upstreamBody,
+      retryAfter: this.retryAfter,
+      fields: this.fields,
+      requestId: this.requestId,
+    };
+  }
+}
+
+export class TorreNotFoundError extends TorreApiError {
+  readonly code = "not_found";
+  readonly status = 404;
+
+  constructor(message: string, options?: TorreApiErrorOptions) {
+    super(message, options);
+    this.name = "TorreNotFoundError";
+  }
+}
+
+export class TorreRateLimitedError extends TorreApiError {
+  readonly code = "rate_limited";
+  readonly status = 429;
+
+  constructor(message: string, options?: TorreApiErrorOptions) {
+    super(message, options);
+    this.name = "TorreRateLimitedError";
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+export class TorreUpstreamUnavailableError extends TorreApiError {
+  readonly code = "upstream_unavailable";
+  readonly status = 503;
+
+  constructor(message: string, options?: TorreApiErrorOptions) {
+    super(message, options);
+    this.name = "TorreUpstreamUnavailableError";
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+export class TorreInvalidRequestError extends TorreApiError {
+  readonly code = "invalid_request";
+  readonly status = 400;
+
+  constructor(message: string, options?: TorreApiErrorOptions) {
+    super(message, options);
+    this.name = "TorreInvalidRequestError";
+  }
+}
+
+// ============================================================================
+// Factories
+// ============================================================================
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into seconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Classify a failed upstream Torre response
+ * @param status - Upstream HTTP status
+ * @param body - Parsed upstream body (if any)
+ * @param resource - Human-readable name of what was requested, e.g. "Job PW9yY63W"
+ */
+export function fromUpstreamStatus(
+  status: number,
+  body: unknown,
+  resource: string,
+  retryAfter?: number
+): TorreApiError {
+  const options = { upstreamStatus: status, upstreamBody: body, retryAfter };
+
+  if (status === 404) return new TorreNotFoundError(`${resource} was not found`, options);
+  if (status === 429) return new TorreRateLimitedError("Torre is rate limiting requests, retry later", options);
+  if (status >= 500) return new TorreUpstreamUnavailableError("Torre is currently unavailable, retry later", options);
+  if (status === 400 || status === 422) return new TorreInvalidRequestError(`Torre rejected the request for ${resource}`, options);
+  return new TorreApiError(`Torre responded with status ${status} for ${resource}`, options);
+}
+
+/**
+ * Re-hydrate a typed error from a proxy route error payload
+ */
+export function fromPayload(payload: Partial<TorreApiErrorPayload>, fallbackMessage: string): TorreApiError {
+  const message = payload.error || fallbackMessage;
+  const options = {
+    upstreamStatus: payload.upstreamStatus,
+    upstreamBody: payload.upstreamBody,
+    retryAfter: payload.retryAfter,
+    fields: payload.fields,
+    requestId: payload.requestId,
+  };
+
+  switch (payload.code) {
+    case "not_found":
+      return new TorreNotFoundError(message, options);
+    case "rate_limited":
+      return new TorreRateLimitedError(message, options);
+    case "upstream_unavailable":
+      return new TorreUpstreamUnavailableError(message, options);
+    case "invalid_request":
+      return new TorreInvalidRequestError(message, options);
+    default:
+      return new TorreApiError(message, options);
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Build a typed error from a failed proxy route response
+ * @param resource - Human-readable name of what was requested, e.g. "Job PW9yY63W"
+ */
+export async function fromResponse(response: Response, resource: string): Promise<TorreApiError> {
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    // Non-JSON body, fall back to the HTTP status
+  }
+  // `null`, numbers and strings are valid JSON but not an error payload
+  const payload: Partial<TorreApiErrorPayload> = isPlainObject(body) ? body : {};
+
+  const requestId = response.headers.get("x-request-id") ?? (typeof payload.requestId === "string" ? payload.requestId : undefined);
+  if (typeof payload.code !== "string") {
+    const error = fromUpstreamStatus(response.status, body, resource, parseRetryAfter(response.headers.get("Retry-After")));
+    return requestId ? fromPayload({ ...error.toJSON(), requestId }, error.message) : error;
+  }
+  return fromPayload({ ...payload, requestId }, `Request for ${resource} failed: ${response.statusText}`);
+}
+
+/**
+ * Whether a request failed because its caller aborted it; such failures are
+ * expected and should not be shown as errors
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
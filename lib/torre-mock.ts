@@ -0,0 +1,171 @@
+/**
+ * Torre Mock Mode
+ * Serves recorded fixtures instead of the live Torre upstreams (TORRE_MOCK=replay)
+ * or captures live responses into fixtures (TORRE_MOCK=record)
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { getConfig } from "./config";
+import type { UpstreamName } from "./upstream";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MockMode = "off" | "replay" | "record";
+
+export interface Fixture {
+  request: {
+    method: string;
+    url: string;
+    body?: unknown;
+  };
+  status: number;
+  body: unknown;
+  /** Extra latency applied when this fixture is replayed */
+  delayMs?: number;
+  /** Retry-After header sent with the replayed response */
+  retryAfter?: number;
+  recordedAt: string;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Mock mode from TORRE_MOCK: "replay" (or "1"/"true"), "record" or "off"
+ */
+export function getMockMode(): MockMode {
+  return getConfig().mock.mode;
+}
+
+const fixturesDir = () => getConfig().mock.fixturesDir;
+
+// TORRE_MOCK_LATENCY_MS: "250" for a fixed delay or "100-800" for a random one
+const simulatedLatency = (): number => {
+  const { min, max } = getConfig().mock.latencyMs;
+  return min + Math.random() * (max - min);
+};
+
+const simulatedErrorRate = (): number => getConfig().mock.errorRate;
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const readBody = (init: RequestInit): unknown => {
+  if (typeof init.body !== "string") return undefined;
+  try {
+    return JSON.parse(init.body);
+  } catch {
+    return init.body;
+  }
+};
+
+/**
+ * Fixture file for a request: GETs are named after the last path segment
+ * (job id, username), other requests after a hash of URL and body.
+ */
+function fixturePath(upstream: UpstreamName, url: string, init: RequestInit): string {
+  const method = (init.method || "GET").toUpperCase();
+  const name = method === "GET"
+    ? (new URL(url).pathname.split("/").filter(Boolean).pop() || "index").replace(/[^A-Za-z0-9_-]/g, "_")
+    : createHash("sha1").update(`${method} ${url} ${init.body ?? ""}`).digest("hex").slice(0, 16);
+  return path.join(fixturesDir(), upstream, `${name}.json`);
+}
+
+async function readFixture(file: string): Promise<Fixture | undefined> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as Fixture;
+  } catch {
+    return undefined;
+  }
+}
+
+// Abortable so the upstream timeout also applies to simulated latency
+const sleep = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    // Drop the listener once the delay is over so long-lived signals do not collect them
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const jsonResponse = (status: number, body: unknown, retryAfter?: number): Response => {
+  const headers = new Headers({ "Content-Type": "application/json" });
+  if (retryAfter != null) headers.set("Retry-After", String(retryAfter));
+  return new Response(JSON.stringify(body), { status, headers });
+};
+
+/**
+ * Answer a request from the fixture directory. Falls back to `_default.json`
+ * for the upstream, and to a 404 when no fixture exists.
+ */
+async function replay(upstream: UpstreamName, url: string, init: RequestInit): Promise<Response> {
+  await sleep(simulatedLatency(), init.signal);
+
+  if (Math.random() < simulatedErrorRate()) {
+    return jsonResponse(503, { message: "Simulated Torre outage (TORRE_MOCK_ERROR_RATE)" });
+  }
+
+  const fixture = await readFixture(fixturePath(upstream, url, init))
+    ?? await readFixture(path.join(fixturesDir(), upstream, "_default.json"));
+
+  if (!fixture) {
+    return jsonResponse(404, { message: `No fixture recorded for ${upstream} ${url}` });
+  }
+
+  if (fixture.delayMs) await sleep(fixture.delayMs, init.signal);
+  return jsonResponse(fixture.status, fixture.body, fixture.retryAfter);
+}
+
+/**
+ * Perform the live request and store its response as a fixture
+ */
+async function record(upstream: UpstreamName, url: string, init: RequestInit): Promise<Response> {
+  const response = await fetch(url, init);
+  const text = await response.clone().text();
+
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Keep non-JSON bodies as text
+  }
+
+  const fixture: Fixture = {
+    request: { method: (init.method || "GET").toUpperCase(), url, body: readBody(init) },
+    status: response.status,
+    body,
+    recordedAt: new Date().toISOString(),
+  };
+  const file = fixturePath(upstream, url, init);
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`, "utf8");
+
+  return response;
+}
+
+/**
+ * Drop-in replacement for `fetch` on Torre upstream calls that honors TORRE_MOCK
+ */
+export async function mockAwareFetch(upstream: UpstreamName, url: string, init: RequestInit): Promise<Response> {
+  switch (getMockMode()) {
+    case "replay":
+      return replay(upstream, url, init);
+    case "record":
+      return record(upstream, url, init);
+    default:
+      return fetch(url, init);
+  }
+}
@@ -0,0 +1,449 @@
+/**
+ * Torre Payload Schemas
+ * Runtime validation of upstream Torre responses with schema drift reporting
+ */
+
+import { z } from "zod";
+import type {
+  AggregatorBucket,
+  GenomeResponse,
+  JobDetails,
+  JobResult,
+  SearchResponse,
+} from "./torre-api";
+import { getConfig } from "./config";
+import { logger } from "./logger";
+import { TorreApiError } from "./torre-errors";
+
+// ============================================================================
+// Schemas - Shared
+// ============================================================================
+
+const organizationSchema = z.object({
+  id: z.number(),
+  name: z.string().default(""),
+  picture: z.string().nullish().transform((v) => v ?? undefined),
+  publicId: z.string().optional(),
+  websiteUrl: z.string().nullish().transform((v) => v ?? undefined),
+  about: z.string().nullish().transform((v) => v ?? undefined),
+  perks: z.string().nullish().transform((v) => v ?? undefined),
+  theme: z.string().optional(),
+  size: z.number().nullish().transform((v) => v ?? undefined),
+});
+
+const placeSchema = z.object({
+  remote: z.boolean().default(false),
+  anywhere: z.boolean().default(false),
+  timezone: z.boolean().default(false),
+  locationType: z.string().default(""),
+  location: z.array(z.object({
+    id: z.string(),
+    countryCode: z.string().optional(),
+    latitude: z.number().optional(),
+    longitude: z.number().optional(),
+    timezone: z.number().optional(),
+  })).default([]),
+});
+
+// ============================================================================
+// Schemas - Search Opportunities
+// ============================================================================
+
+export const jobResultSchema = z.object({
+  id: z.string(),
+  objective: z.string().default(""),
+  slug: z.string().default(""),
+  tagline: z.string().default(""),
+  theme: z.string().default(""),
+  type: z.string().default(""),
+  opportunity: z.string().default(""),
+  organizations: z.array(organizationSchema).default([]),
+  locations: z.array(z.string()).default([]),
+  timezones: z.array(z.number()).nullable().default(null),
+  remote: z.boolean().default(false),
+  status: z.string().default(""),
+  commitment: z.string().default(""),
+  compensation: z.object({
+    data: z.object({
+      code: z.string(),
+      currency: z.string(),
+      minAmount: z.number(),
+      maxAmount: z.number(),
+      periodicity: z.string(),
+      minHourlyUSD: z.number().optional(),
+      maxHourlyUSD: z.number().optional(),
+      negotiable: z.boolean().optional(),
+    }).nullable(),
+    visible: z.boolean(),
+  }).default({ data: null, visible: false }),
+  skills: z.array(z.object({
+    name: z.string(),
+    experience: z.string().default(""),
+    proficiency: z.string().default(""),
+  })).default([]),
+  place: placeSchema,
+  additionalCompensation: z.array(z.string()).default([]),
+  quickApply: z.boolean().default(false),
+}) satisfies z.ZodType<JobResult>;
+
+const aggregatorBucketSchema = z.object({
+  value: z.string(),
+  total: z.number(),
+}) satisfies z.ZodType<AggregatorBucket>;
+
+export const searchResponseSchema = z.object({
+  total: z.number().default(0),
+  size: z.number().default(0),
+  results: z.array(jobResultSchema).default([]),
+  offset: z.number().optional(),
+  aggregators: z.record(z.string(), z.array(aggregatorBucketSchema)).optional(),
+  pagination: z.object({
+    previous: z.string().nullable(),
+    next: z.string().nullable(),
+  }).optional(),
+}) satisfies z.ZodType<SearchResponse>;
+
+// ============================================================================
+// Schemas - Job Details
+// ============================================================================
+
+const personSchema = z.object({
+  id: z.string(),
+  ggId: z.string(),
+  name: z.string().default(""),
+  username: z.string().default(""),
+  professionalHeadline: z.string().default(""),
+  picture: z.string().optional(),
+  pictureThumbnail: z.string().optional(),
+  theme: z.string().optional(),
+  verified: z.boolean().optional(),
+});
+
+export const jobDetailsSchema = z.object({
+  id: z.string(),
+  objective: z.string().default(""),
+  tagline: z.string().default(""),
+  slug: z.string().default(""),
+  theme: z.string().default(""),
+  status: z.string().default(""),
+  active: z.boolean().default(false),
+  published: z.boolean().default(false),
+  quickApply: z.boolean().default(false),
+  created: z.string().default(""),
+  deadline: z.string().nullish().transform((v) => v ?? undefined),
+  videoUrl: z.string().nullish().transform((v) => v ?? undefined),
+  openGraph: z.string().nullish().transform((v) => v ?? undefined),
+  locale: z.string().default("en"),
+  opportunity: z.string().default(""),
+  completion: z.number().default(0),
+  owner: personSchema,
+  members: z.array(z.object({
+    id: z.string(),
+    person: personSchema,
+    manager: z.boolean().default(false),
+    poster: z.boolean().default(false),
+    member: z.boolean().default(false),
+    leader: z.boolean().default(false),
+    visible: z.boolean().default(false),
+  })).default([]),
+  organizations: z.array(organizationSchema).default([]),
+  strengths: z.array(z.object({
+    id: z.string(),
+    code: z.number(),
+    name: z.string(),
+    experience: z.string().optional(),
+    proficiency: z.string().optional(),
+  })).default([]),
+  languages: z.array(z.object({
+    language: z.object({
+      code: z.string(),
+      name: z.string(),
+    }),
+    fluency: z.string(),
+  })).default([]),
+  place: placeSchema,
+  details: z.array(z.object({
+    code: z.string(),
+    content: z.string(),
+  })).default([]),
+  commitment: z.object({
+    code: z.string(),
+    hours: z.number().optional(),
+  }).nullable().default(null),
+  agreement: z.object({
+    type: z.string(),
+    currencyTaxes: z.string().optional(),
+  }).nullable().default(null),
+  compensation: z.object({
+    code: z.string(),
+    currency: z.string(),
+    minAmount: z.number(),
+    maxAmount: z.number(),
+    periodicity: z.string(),
+    visible: z.boolean(),
+    negotiable: z.boolean().optional(),
+    estimate: z.boolean().optional(),
+  }).nullable().default(null),
+}) satisfies z.ZodType<JobDetails>;
+
+// ============================================================================
+// Schemas - Genome/Bio
+// ============================================================================
+
+const genomeExperienceSchema = z.object({
+  id: z.string(),
+  category: z.string(),
+  name: z.string().default(""),
+  organizations: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    picture: z.string().optional(),
+  })).optional(),
+  fromMonth: z.string().optional(),
+  fromYear: z.string().optional(),
+  toMonth: z.string().optional(),
+  toYear: z.string().optional(),
+  remote: z.boolean().optional(),
+  additionalInfo: z.string().optional(),
+  highlighted: z.boolean().optional(),
+});
+
+export const genomeResponseSchema = z.object({
+  person: z.object({
+    professionalHeadline: z.string().default(""),
+    completion: z.number().default(0),
+    showPhone: z.boolean().default(false),
+    created: z.string().default(""),
+    verified: z.boolean().default(false),
+    weight: z.number().default(0),
+    ggId: z.string(),
+    locale: z.string().default("en"),
+    subjectId: z.number(),
+    picture: z.string().optional(),
+    pictureThumbnail: z.string().optional(),
+    hasEmail: z.boolean().default(false),
+    isTest: z.boolean().default(false),
+    name: z.string().default(""),
+    links: z.array(z.object({
+      id: z.string(),
+      name: z.string(),
+      address: z.string(),
+    })).optional(),
+    location: z.object({
+      name: z.string(),
+      shortName: z.string().optional(),
+      country: z.string(),
+      countryCode: z.string(),
+      latitude: z.number(),
+      longitude: z.number(),
+      timezone: z.string().optional(),
+    }).optional(),
+    theme: z.string().optional(),
+    id: z.string(),
+    publicId: z.string(),
+    summaryOfBio: z.string().optional(),
+  }),
+  stats: z.object({
+    strengths: z.number().default(0),
+    publications: z.number().default(0),
+    awards: z.number().default(0),
+    education: z.number().default(0),
+    jobs: z.number().default(0),
+    projects: z.number().default(0),
+  }).default({ strengths: 0, publications: 0, awards: 0, education: 0, jobs: 0, projects: 0 }),
+  strengths: z.array(z.object({
+    id: z.string(),
+    code: z.number(),
+    name: z.string(),
+    proficiency: z.string().optional(),
+    weight: z.number().default(0),
+    recommendations: z.number().default(0),
+  })).default([]),
+  interests: z.array(z.unknown()).default([]),
+  experiences: z.array(genomeExperienceSchema).default([]),
+  awards: z.array(genomeExperienceSchema).default([]),
+  jobs: z.array(genomeExperienceSchema).default([]),
+  projects: z.array(genomeExperienceSchema).default([]),
+  publications: z.array(genomeExperienceSchema).default([]),
+  education: z.array(genomeExperienceSchema).default([]),
+  languages: z.array(z.object({
+    code: z.string(),
+    language: z.string(),
+    fluency: z.string(),
+  })).default([]),
+}) satisfies z.ZodType<GenomeResponse>;
+
+// ============================================================================
+// Drift Detection
+// ============================================================================
+
+export type SchemaMode = "lenient" | "strict";
+
+export interface SchemaDriftReport {
+  resource: string;
+  mode: SchemaMode;
+  /** Fields the schema requires but the payload lacks */
+  missing: string[];
+  /** Fields present in the payload but unknown to the schema (stripped) */
+  unexpected: string[];
+  /** Fields whose value does not match the schema */
+  invalid: Array<{ path: string; message: string }>;
+}
+
+/**
+ * Validation mode from TORRE_SCHEMA_MODE (default: lenient)
+ */
+export function getSchemaMode(): SchemaMode {
+  return getConfig().torre.schemaMode;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const joinPath = (base: string, key: string) => (base ? `${base}.${key}` : key);
+
+/**
+ * Walk the schema alongside the payload collecting missing and unexpected
+ * fields. Array items share one path (`field[]`) so reports stay short.
+ */
+function collectDrift(
+  schema: z.ZodType,
+  value: unknown,
+  path: string,
+  missing: Set<string>,
+  unexpected: Set<string>
+): void {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable || schema instanceof z.ZodDefault) {
+    collectDrift(schema.unwrap() as z.ZodType, value, path, missing, unexpected);
+    return;
+  }
+  if (schema instanceof z.ZodPipe) {
+    collectDrift(schema.in as z.ZodType, value, path, missing, unexpected);
+    return;
+  }
+
+  if (schema instanceof z.ZodArray && Array.isArray(value)) {
+    for (const item of value) {
+      collectDrift(schema.element as z.ZodType, item, `${path}[]`, missing, unexpected);
+    }
+    return;
+  }
+
+  if (schema instanceof z.ZodObject && isPlainObject(value)) {
+    const shape = schema.shape as Record<string, z.ZodType>;
+    for (const [key, child] of Object.entries(shape)) {
+      const childPath = joinPath(path, key);
+      if (value[key] === undefined) {
+        // Defaulted fields count as missing even though parsing fills them in
+        const optional = child instanceof z.ZodOptional
+          || (!(child instanceof z.ZodDefault) && child.safeParse(undefined).success);
+        if (!optional) missing.add(childPath);
+      } else {
+        collectDrift(child, value[key], childPath, missing, unexpected);
+      }
+    }
+    for (const key of Object.keys(value)) {
+      if (!(key in shape)) unexpected.add(joinPath(path, key));
+    }
+  }
+}
+
+// Reports already logged, so a recurring drift is only reported once per process
+const reportedDrift = new Set<string>();
+
+function logDrift(report: SchemaDriftReport): void {
+  const signature = JSON.stringify([report.resource, report.missing, report.unexpected, report.invalid.map((i) => i.path)]);
+  if (reportedDrift.has(signature)) return;
+  reportedDrift.add(signature);
+  logger.warn("schema_drift", { ...report });
+}
+
+// Array items dropped while repairing a payload, filtered out after each pass
+const DROPPED = Symbol("dropped");
+
+const getAt = (value: unknown, path: PropertyKey[]): unknown =>
+  path.reduce<unknown>((node, key) => (isPlainObject(node) || Array.isArray(node) ? (node as never)[key] : undefined), value);
+
+const withoutDropped = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.filter((item) => item !== DROPPED).map(withoutDropped);
+  if (isPlainObject(value)) return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, withoutDropped(item)]));
+  return value;
+};
+
+/**
+ * Make a mismatching payload parse by removing what is wrong: an invalid field
+ * is deleted (so its default or optional type applies) and a required field
+ * that is still missing takes its enclosing array item with it
+ * @returns null when a required field outside any array cannot be repaired
+ */
+function repairPayload<T>(schema: z.ZodType<T>, data: unknown): T | null {
+  let value = structuredClone(data);
+
+  for (let pass = 0; pass < 10; pass++) {
+    const result = schema.safeParse(value);
+    if (result.success) return result.data;
+
+    for (const { path } of result.error.issues) {
+      if (!path.length) return null;
+      const parent = getAt(value, path.slice(0, -1));
+      const key = path[path.length - 1];
+
+      if (getAt(value, path) !== undefined && (isPlainObject(parent) || Array.isArray(parent))) {
+        delete (parent as Record<PropertyKey, unknown>)[key];
+        continue;
+      }
+      const itemIndex = path.findLastIndex((segment) => typeof segment === "number");
+      if (itemIndex === -1) return null;
+      const array = getAt(value, path.slice(0, itemIndex));
+      if (Array.isArray(array)) array[path[itemIndex] as number] = DROPPED;
+    }
+    value = withoutDropped(value);
+  }
+  return null;
+}
+
+/**
+ * Validate an upstream payload against its schema.
+ * Lenient mode strips unknown fields, fills defaults and drops invalid fields
+ * (or the array items they belong to) so callers always get well-typed data;
+ * strict mode throws on missing or invalid fields.
+ * Either way, drift is logged as a structured "schema_drift" report.
+ * @param resource - Payload kind used in the report, e.g. "job"
+ * @throws TorreApiError in strict mode when the payload does not match, and in
+ * lenient mode when a required top-level field is missing or invalid
+ */
+export function validateUpstream<T>(
+  schema: z.ZodType<T>,
+  data: unknown,
+  resource: string,
+  mode: SchemaMode = getSchemaMode()
+): T {
+  const missing = new Set<string>();
+  const unexpected = new Set<string>();
+  collectDrift(schema, data, "", missing, unexpected);
+
+  const result = schema.safeParse(data);
+  const invalid = result.success
+    ? []
+    : result.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }));
+
+  const report: SchemaDriftReport = {
+    resource,
+    mode,
+    missing: [...missing],
+    unexpected: [...unexpected],
+    invalid,
+  };
+  if (report.missing.length || report.unexpected.length || report.invalid.length) {
+    logDrift(report);
+  }
+
+  const repaired = result.success ? result.data : mode === "lenient" ? repairPayload(schema, data) : null;
+  if ((mode === "strict" && report.missing.length) || repaired === null) {
+    throw new TorreApiError(`Torre returned a ${resource} payload that does not match the expected schema`, {
+      upstreamBody: { missing: report.missing, invalid: report.invalid },
+    });
+  }
+
+  return repaired;
+}
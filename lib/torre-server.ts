@@ -0,0 +1,132 @@
+/**
+ * Server-side Torre Client
+ * TorreApiClient wired to the upstream layer, response cache and payload
+ * validation, for route handlers, server components and scripts
+ */
+
+import { cached, type CacheResult } from "./cache";
+import { getConfig } from "./config";
+import {
+  TorreApiClient,
+  type FetchLike,
+  type GenomeResponse,
+  type JobDetails,
+} from "./torre-api";
+import { TorreApiError, TorreUpstreamUnavailableError, isAbortError } from "./torre-errors";
+import { genomeResponseSchema, jobDetailsSchema, searchResponseSchema, validateUpstream } from "./torre-schemas";
+import { fetchUpstream, type UpstreamName } from "./upstream";
+
+// ============================================================================
+// Upstream Fetch
+// ============================================================================
+
+const upstreamFor = (url: string): UpstreamName | undefined => {
+  const { endpoints } = getConfig().torre;
+  return (Object.keys(endpoints) as UpstreamName[]).find((name) => url.startsWith(endpoints[name]));
+};
+
+// Jobs and genomes go through the same cached lookups as the proxy routes;
+// searches are not cached but validated the same way
+const loadUpstream = async (upstream: UpstreamName, url: string, init: RequestInit): Promise<unknown> => {
+  const id = decodeURIComponent(new URL(url).pathname.split("/").pop() || "");
+  if (upstream === "opportunities") return (await loadJobDetails(id)).value;
+  if (upstream === "genome") return (await loadGenome(id)).value;
+
+  const data = await fetchUpstream(url, init, { upstream, resource: "Opportunity search" });
+  return validateUpstream(searchResponseSchema, data, "search");
+};
+
+// The upstream call may be shared with other callers (coalescing), so an abort
+// only stops this caller from waiting on it
+const abortable = <T>(promise: Promise<T>, signal?: AbortSignal | null): Promise<T> =>
+  !signal
+    ? promise
+    : new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener("abort", onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+      });
+
+/**
+ * Fetch implementation that sends Torre calls through `fetchUpstream`, so they
+ * get timeouts, retries, the circuit breaker, mock mode, the response cache and
+ * schema validation. Failures are returned as error payload responses, which
+ * TorreApiClient turns back into typed errors.
+ */
+export const upstreamFetch: FetchLike = async (url, init = {}) => {
+  const upstream = upstreamFor(url);
+  if (!upstream) {
+    return fetch(url, init);
+  }
+
+  const { signal, ...upstreamInit } = init;
+  signal?.throwIfAborted();
+
+  try {
+    const data = await abortable(loadUpstream(upstream, url, upstreamInit), signal);
+    return Response.json(data);
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw error;
+    const apiError = error instanceof TorreApiError
+      ? error
+      : new TorreUpstreamUnavailableError(error instanceof Error ? error.message : "Torre request failed");
+    return Response.json(apiError.toJSON(), { status: apiError.status });
+  }
+};
+
+// ============================================================================
+// Cached Lookups
+// ============================================================================
+
+/**
+ * Job details through the response cache, validated against the job schema
+ * @throws TorreApiError when the upstream call fails
+ */
+export function loadJobDetails(id: string): Promise<CacheResult<JobDetails>> {
+  return cached("job", id, async () => {
+    const data = await fetchUpstream(
+      `${getConfig().torre.endpoints.opportunities}/${encodeURIComponent(id)}`,
+      {
+        method: "GET",
+        headers: { "Content-Type": "application/json" },
+      },
+      { upstream: "opportunities", resource: `Job ${id}` }
+    );
+    return validateUpstream(jobDetailsSchema, data, "job");
+  });
+}
+
+/**
+ * Genome through the response cache, validated against the genome schema
+ * @throws TorreApiError when the upstream call fails
+ */
+export function loadGenome(username: string): Promise<CacheResult<GenomeResponse>> {
+  return cached("genome", username, async () => {
+    const data = await fetchUpstream(
+      `${getConfig().torre.endpoints.genome}/${encodeURIComponent(username)}`,
+      {
+        method: "GET",
+        headers: { "Content-Type": "application/json" },
+      },
+      { upstream: "genome", resource: `Profile ${username}` }
+    );
+    return validateUpstream(genomeResponseSchema, data, "genome");
+  });
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+/**
+ * Client calling Torre directly through the upstream layer and response cache.
+ * Use it instead of `torreApi` from lib/torre-api.ts in server code, where that
+ * one calls Torre with a plain fetch.
+ * @example
+ * const job = await torreServerApi.getJobDetails("PW9yY63W");
+ */
+export const torreServerApi = new TorreApiClient({
+  mode: "direct",
+  fetch: upstreamFetch,
+  endpoints: getConfig().torre.endpoints,
+});
@@ -0,0 +1,276 @@
+/**
+ * Upstream Fetch Layer
+ * Shared access to the Torre upstreams with timeouts, retries, a circuit breaker
+ * and coalescing of identical concurrent calls (served from fixtures when
+ * TORRE_MOCK is set, see lib/torre-mock.ts)
+ */
+
+import {
+  TorreApiError,
+  TorreRateLimitedError,
+  TorreUpstreamUnavailableError,
+  fromUpstreamStatus,
+  parseRetryAfter,
+} from "./torre-errors";
+import { coalesce, requestKey } from "./coalesce";
+import { getConfig } from "./config";
+import { errorFields, logger } from "./logger";
+import { recordUpstreamAttempt } from "./metrics";
+import { mockAwareFetch } from "./torre-mock";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Logical Torre upstreams, each with its own circuit breaker */
+export type UpstreamName = "search" | "opportunities" | "genome";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface UpstreamConfig {
+  timeoutMs: number;
+  retries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+  /** Parallel upstream calls per batch request */
+  batchConcurrency: number;
+  /** Largest number of IDs accepted by a batch request */
+  batchMaxIds: number;
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+  lastError: string | null;
+}
+
+export interface UpstreamRequest {
+  upstream: UpstreamName;
+  /** Human-readable name used in error messages, e.g. "Job PW9yY63W" */
+  resource: string;
+  /** Overrides the configured timeout for this call */
+  timeoutMs?: number;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Upstream settings: TORRE_TIMEOUT_MS, TORRE_RETRIES, TORRE_RETRY_BASE_DELAY_MS,
+ * TORRE_RETRY_MAX_DELAY_MS, TORRE_BREAKER_THRESHOLD, TORRE_BREAKER_COOLDOWN_MS,
+ * TORRE_BATCH_CONCURRENCY and TORRE_BATCH_MAX_IDS (see lib/config.ts)
+ */
+export function getUpstreamConfig(): UpstreamConfig {
+  return getConfig().upstream;
+}
+
+// ============================================================================
+// Circuit Breaker
+// ============================================================================
+
+class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private lastError: string | null = null;
+
+  /**
+   * Whether a call may go through. After the cool-down an open breaker
+   * lets a single probe through (half-open).
+   */
+  canRequest(cooldownMs: number): boolean {
+    if (this.state === "open" && this.openedAt !== null && Date.now() - this.openedAt >= cooldownMs) {
+      this.state = "half-open";
+      return true;
+    }
+    return this.state === "closed";
+  }
+
+  /**
+   * Seconds a rejected caller should wait (never 0): the rest of the cool-down
+   * while open, or the probe's timeout while half-open with the probe in flight
+   */
+  retryAfter(cooldownMs: number, probeTimeoutMs: number): number {
+    const waitMs =
+      this.state === "half-open" || this.openedAt === null
+        ? probeTimeoutMs
+        : this.openedAt + cooldownMs - Date.now();
+    return Math.max(1, Math.ceil(waitMs / 1000));
+  }
+
+  recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+  }
+
+  recordFailure(error: string, threshold: number): void {
+    this.consecutiveFailures += 1;
+    this.lastError = error;
+    if (this.state === "half-open" || this.consecutiveFailures >= threshold) {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+
+  snapshot(cooldownMs: number): CircuitSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      retryAt: this.openedAt !== null ? new Date(this.openedAt + cooldownMs).toISOString() : null,
+      lastError: this.lastError,
+    };
+  }
+}
+
+const breakers: Record<UpstreamName, CircuitBreaker> = {
+  search: new CircuitBreaker(),
+  opportunities: new CircuitBreaker(),
+  genome: new CircuitBreaker(),
+};
+
+/**
+ * Current circuit breaker state for every upstream
+ */
+export function getCircuitSnapshots(): Record<UpstreamName, CircuitSnapshot> {
+  const { breakerCooldownMs } = getUpstreamConfig();
+  return {
+    search: breakers.search.snapshot(breakerCooldownMs),
+    opportunities: breakers.opportunities.snapshot(breakerCooldownMs),
+    genome: breakers.genome.snapshot(breakerCooldownMs),
+  };
+}
+
+// ============================================================================
+// Fetch
+// ============================================================================
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Exponential backoff with full jitter
+const backoffDelay = (attempt: number, config: UpstreamConfig): number =>
+  Math.min(config.retryMaxDelayMs, Math.random() * config.retryBaseDelayMs * 2 ** attempt);
+
+/**
+ * Perform one upstream call, converting timeouts, network failures and
+ * non-2xx statuses into TorreApiError. The timeout covers reading the body.
+ */
+async function attemptFetch<T>(
+  upstream: UpstreamName,
+  url: string,
+  init: RequestInit,
+  resource: string,
+  timeoutMs: number
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const startedAt = performance.now();
+  const method = (init.method || "GET").toUpperCase();
+
+  // A timeout or network failure, before the headers or while reading the body
+  const unreachable = (error: unknown): TorreUpstreamUnavailableError => {
+    const status = controller.signal.aborted ? "timeout" : "network_error";
+    const durationMs = Math.round(performance.now() - startedAt);
+    recordUpstreamAttempt(upstream, status, durationMs);
+    logger.warn("upstream_request", { upstream, method, url, status, durationMs, ...errorFields(error) });
+    return new TorreUpstreamUnavailableError(
+      controller.signal.aborted
+        ? `Torre did not respond within ${timeoutMs}ms`
+        : `Could not reach Torre: ${error instanceof Error ? error.message : "network error"}`
+    );
+  };
+
+  let response: Response;
+  try {
+    response = await mockAwareFetch(upstream, url, { ...init, signal: controller.signal });
+  } catch (error) {
+    clearTimeout(timer);
+    throw unreachable(error);
+  }
+
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch (error) {
+    if (controller.signal.aborted) throw unreachable(error);
+    body = undefined;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const durationMs = Math.round(performance.now() - startedAt);
+  recordUpstreamAttempt(upstream, response.status, durationMs);
+
+  if (!response.ok) {
+    const error = fromUpstreamStatus(response.status, body, resource, parseRetryAfter(response.headers.get("Retry-After")));
+    logger.warn("upstream_request", { upstream, method, url, status: response.status, durationMs, ...errorFields(error) });
+    throw error;
+  }
+  logger.info("upstream_request", { upstream, method, url, status: response.status, durationMs });
+
+  if (body === undefined) {
+    throw new TorreUpstreamUnavailableError("Torre returned an unreadable response", {
+      upstreamStatus: response.status,
+    });
+  }
+
+  return body as T;
+}
+
+/**
+ * Fetch a Torre upstream and parse its JSON body.
+ * Retries 5xx, 429 and network failures with exponential backoff (honoring
+ * Retry-After) and fails fast while the upstream's circuit breaker is open.
+ * Identical calls already in flight share that call's result.
+ * @throws TorreApiError when the call ultimately fails
+ */
+export function fetchUpstream<T>(url: string, init: RequestInit, request: UpstreamRequest): Promise<T> {
+  return coalesce(request.upstream, requestKey(url, init), () => fetchWithRetries<T>(url, init, request));
+}
+
+async function fetchWithRetries<T>(
+  url: string,
+  init: RequestInit,
+  { upstream, resource, timeoutMs }: UpstreamRequest
+): Promise<T> {
+  const config = getUpstreamConfig();
+  const breaker = breakers[upstream];
+
+  if (!breaker.canRequest(config.breakerCooldownMs)) {
+    const retryAfter = breaker.retryAfter(config.breakerCooldownMs, timeoutMs ?? config.timeoutMs);
+    throw new TorreUpstreamUnavailableError(
+      `Torre ${upstream} is failing, requests are paused for ${retryAfter}s`,
+      { retryAfter }
+    );
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const data = await attemptFetch<T>(upstream, url, init, resource, timeoutMs ?? config.timeoutMs);
+      breaker.recordSuccess();
+      return data;
+    } catch (error) {
+      if (!(error instanceof TorreApiError) || !error.retryable) {
+        // The upstream answered; a 404 or 400 says nothing about its health
+        breaker.recordSuccess();
+        throw error;
+      }
+
+      const delay = error.retryAfter != null ? error.retryAfter * 1000 : backoffDelay(attempt, config);
+      if (attempt >= config.retries || delay > config.retryMaxDelayMs) {
+        // Being rate limited is handled through Retry-After; it says the
+        // upstream is up, so it must not open the circuit for every caller
+        if (error instanceof TorreRateLimitedError) breaker.recordSuccess();
+        else breaker.recordFailure(error.message, config.breakerThreshold);
+        throw error;
+      }
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Request Validation
+ * Zod schemas for route params, query strings and bodies of the API routes,
+ * failing with TorreInvalidRequestError and field-level messages
+ */
+
+import { z } from "zod";
+import { NextRequest } from "next/server";
+import { SUPPORTED_CURRENCIES, SUPPORTED_LANGS, SUPPORTED_PERIODICITIES } from "./torre-api";
+import { normalizeModelId } from "./ai-providers";
+import { getConfig } from "./config";
+import { TorreInvalidRequestError } from "./torre-errors";
+
+// ============================================================================
+// Schemas - Route Params
+// ============================================================================
+
+/** Torre username: letters, digits, ".", "_" and "-", not starting with a dot */
+export const usernameSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-][A-Za-z0-9._-]{0,63}$/, "Must be a Torre username (letters, digits, \".\", \"_\" or \"-\")");
+
+/** Torre opportunity ID, e.g. "PW9yY63W" */
+export const jobIdSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{1,32}$/, "Must be a Torre job ID (letters, digits, \"_\" or \"-\")");
+
+export const usernameParamsSchema = z.object({ username: usernameSchema });
+
+export const jobParamsSchema = z.object({ id: jobIdSchema });
+
+// ============================================================================
+// Schemas - Search
+// ============================================================================
+
+const cursorSchema = z.string().max(1024, "Cursor is too long");
+
+export const searchQuerySchema = z.object({
+  size: z.coerce.number().int().min(1).max(100).default(10).describe("Number of results per page"),
+  offset: z.coerce.number().int().min(0).optional().describe("Number of results to skip"),
+  after: cursorSchema.optional().describe("Cursor from `pagination.next` to fetch the following page"),
+  before: cursorSchema.optional().describe("Cursor from `pagination.previous` to fetch the preceding page"),
+  aggregate: z.enum(["true", "false"]).optional().describe("Include facet counts in `aggregators`"),
+  currency: z.enum(SUPPORTED_CURRENCIES).default("USD").describe("Currency for compensations"),
+  periodicity: z.enum(SUPPORTED_PERIODICITIES).default("hourly").describe("Compensation periodicity"),
+  lang: z.enum(SUPPORTED_LANGS).default("en").describe("Language of keyword matching"),
+});
+
+/** Criterion names the Torre search accepts (see serializeSearchFilters) */
+const SEARCH_CRITERIA = [
+  "keywords",
+  "language",
+  "skill/role",
+  "status",
+  "remote",
+  "organization",
+  "location",
+  "type",
+  "compensationrange",
+  "quickApply",
+] as const;
+
+const MAX_GROUP_SIZE = 50;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Walk a serialized search expression, reporting problems at their path
+function searchBodyIssues(node: unknown, path: PropertyKey[]): Array<{ path: PropertyKey[]; message: string }> {
+  if (!isPlainObject(node)) {
+    return [{ path, message: "Expected an object" }];
+  }
+
+  const keys = Object.keys(node);
+  if (keys.length !== 1) {
+    return [{ path, message: "Each node must have exactly one field: and, or, not or a criterion" }];
+  }
+
+  const [key] = keys;
+  const value = node[key];
+
+  if (key === "and" || key === "or") {
+    if (!Array.isArray(value)) return [{ path: [...path, key], message: "Expected an array" }];
+    if (value.length > MAX_GROUP_SIZE) {
+      return [{ path: [...path, key], message: `At most ${MAX_GROUP_SIZE} entries per group` }];
+    }
+    return value.flatMap((child, index) => searchBodyIssues(child, [...path, key, index]));
+  }
+  if (key === "not") {
+    return searchBodyIssues(value, [...path, key]);
+  }
+  if (!(SEARCH_CRITERIA as readonly string[]).includes(key)) {
+    return [{ path: [...path, key], message: `Unknown criterion, expected one of: ${SEARCH_CRITERIA.join(", ")}` }];
+  }
+  return isPlainObject(value) ? [] : [{ path: [...path, key], message: "Expected an object" }];
+}
+
+/** Serialized search expression: nested and/or/not groups of criteria */
+export const searchBodySchema = z
+  .record(z.string(), z.unknown())
+  .superRefine((body, ctx) => {
+    for (const issue of searchBodyIssues(body, [])) {
+      ctx.addIssue({ code: "custom", ...issue });
+    }
+  })
+  .meta({
+    description:
+      `A single-field node: an \`and\`/\`or\` array of nodes, a \`not\` node, or a criterion (${SEARCH_CRITERIA.join(", ")}). ` +
+      `Groups hold at most ${MAX_GROUP_SIZE} entries.`,
+    examples: [{ and: [{ keywords: { term: "Designer", locale: "en" } }, { status: { code: "open" } }] }],
+  });
+
+// ============================================================================
+// Schemas - Jobs and AI
+// ============================================================================
+
+export const jobBatchBodySchema = z.object({
+  ids: z.array(jobIdSchema).min(1, "At least one job ID is required").describe("Job IDs; duplicates are ignored"),
+  concurrency: z.number().int().min(1).optional().describe("Parallel lookups, capped by TORRE_BATCH_CONCURRENCY"),
+});
+
+// Only models listed in AI_ALLOWED_MODELS (default: just the configured defaults) may be
+// requested; bare names are read as Gemini models
+const modelSchema = z
+  .string()
+  .transform(normalizeModelId)
+  .superRefine((model, ctx) => {
+    const { allowedModels } = getConfig().ai;
+    if (!allowedModels.includes(model)) {
+      ctx.addIssue({ code: "custom", message: `Must be one of: ${allowedModels.join(", ")}` });
+    }
+  });
+
+export const fitAnalysisBodySchema = z.object({
+  jobId: jobIdSchema.describe("Torre job ID"),
+  username: usernameSchema.describe("Torre username of the candidate"),
+  model: modelSchema.optional().describe('"provider:model" from AI_ALLOWED_MODELS (default: AI_ANALYSIS_MODEL)'),
+});
+
+export const aiRequestSchema = z.object({
+  prompt: z.string().trim().min(1, "Prompt is required").max(100_000).describe("The prompt to send"),
+  systemPrompt: z.string().max(20_000).optional().describe("Optional system prompt for context"),
+  model: modelSchema
+    .optional()
+    .describe('"provider:model" from AI_ALLOWED_MODELS (default: AI_SUMMARIZATION_MODEL, or AI_ANALYSIS_MODEL for candidate-fit)'),
+  output: z
+    .enum(["text", "candidate-fit"])
+    .default("text")
+    .describe("`candidate-fit` returns a schema-validated `object` instead of `text`"),
+});
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const issuePath = (prefix: string, path: PropertyKey[]) =>
+  [prefix, ...path.map(String)].filter(Boolean).join(".");
+
+/**
+ * Parse a value, throwing a 400 with one message per invalid field
+ * @param source - Where the value came from ("params", "query" or "body"), used as the field path prefix
+ * @throws TorreInvalidRequestError when the value does not match
+ */
+export function parseInput<T extends z.ZodType>(schema: T, value: unknown, source: string): z.output<T> {
+  const result = schema.safeParse(value);
+  if (result.success) return result.data;
+
+  const fields: Record<string, string> = {};
+  for (const issue of result.error.issues) {
+    fields[issuePath(source, issue.path)] ??= issue.message;
+  }
+
+  const summary = Object.entries(fields).map(([field, message]) => `${field}: ${message}`).join("; ");
+  throw new TorreInvalidRequestError(`Invalid request: ${summary}`, { fields });
+}
+
+/**
+ * Parse the query string; empty parameters count as missing
+ */
+export function parseQuery<T extends z.ZodType>(schema: T, request: NextRequest): z.output<T> {
+  const query = Object.fromEntries(
+    [...request.nextUrl.searchParams].filter(([, value]) => value !== "")
+  );
+  return parseInput(schema, query, "query");
+}
+
+/**
+ * Read and parse the JSON body
+ * @throws TorreInvalidRequestError when the body is not JSON or does not match
+ */
+export async function parseJsonBody<T extends z.ZodType>(schema: T, request: NextRequest): Promise<z.output<T>> {
+  const body = await request.json().catch(() => {
+    throw new TorreInvalidRequestError("Request body must be valid JSON", { fields: { body: "Must be valid JSON" } });
+  });
+  return parseInput(schema, body, "body");
+}